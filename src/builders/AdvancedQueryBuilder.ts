@@ -1,4 +1,4 @@
-import { WhereOptions } from 'sequelize';
+import { Op, QueryTypes, WhereOptions, col } from 'sequelize';
 import { BasicQueryBuilder } from './BasicQueryBuilder';
 import { PaginationBuilder } from './PaginationBuilder';
 import { FilterBuilder } from './FilterBuilder';
@@ -7,16 +7,50 @@ import { JoinBuilder } from './JoinBuilder';
 import { CacheManager } from '../utils/CacheManager';
 import { PerformanceMonitor } from '../utils/PerformanceMonitor';
 import { ValidationUtils } from '../utils/ValidationUtils';
+import { CursorCodec } from '../utils/CursorCodec';
+import { CountStrategies } from '../utils/CountStrategies';
+import { ODataQueryParser } from '../utils/ODataQueryParser';
+import { SearchQueryParser } from '../utils/SearchQueryParser';
+import { DialectCapabilities } from '../utils/DialectCapabilities';
+import { SchemaGenerator, SchemaGeneratorOptions } from '../utils/SchemaGenerator';
+import { QuerySerializer } from '../utils/QuerySerializer';
+import { FilterComplexityGuard } from '../utils/FilterComplexityGuard';
 import {
   QueryBuilderOptions,
   AdvancedQueryOptions,
   QueryResult,
   QueryContext,
+  CursorQueryResult,
+  DeferredJoinOptions,
+  IterateOptions,
+  SerializedQuery,
 } from '../types/QueryTypes';
+import {
+  Connection,
+  ConnectionArgs,
+  CursorPaginationOptions,
+  CursorSortKey,
+  CountInfo,
+  CountStrategy,
+  CountStrategyOption,
+} from '../types/PaginationTypes';
+import { SearchProvider } from '../types/SearchTypes';
 import { QueryError } from '../errors/QueryError';
 import { ValidationError } from '../errors/ValidationError';
+import { PaginationError } from '../errors/PaginationError';
 
 export class AdvancedQueryBuilder extends BasicQueryBuilder {
+  // Boolean options `restore()` accepts besides those it routes through `with*` methods
+  private static readonly RESTORABLE_FLAGS: (keyof AdvancedQueryOptions)[] = [
+    'parallelCount',
+    'totalCount',
+    'distinct',
+    'subQuery',
+    'searchRank',
+    'benchmark',
+    'logging',
+  ];
+
   private paginationBuilder: PaginationBuilder;
   private filterBuilder: FilterBuilder;
   private sortBuilder: SortBuilder;
@@ -30,7 +64,19 @@ export class AdvancedQueryBuilder extends BasicQueryBuilder {
 
     this.paginationBuilder = new PaginationBuilder(this.config);
     this.filterBuilder = new FilterBuilder(this.requestId);
+    const sequelize = (this.model as any).sequelize;
+    const capabilities = DialectCapabilities.fromModel(this.model);
+    this.filterBuilder.getProcessor().setCapabilities(capabilities);
+    if (this.config.filterLimits) {
+      this.filterBuilder.getProcessor().setLimits(this.config.filterLimits);
+    }
+    this.filterBuilder.setSearchContext({
+      model: this.model,
+      sequelize,
+      dialect: capabilities.dialect,
+    });
     this.sortBuilder = new SortBuilder(this.requestId);
+    this.sortBuilder.getProcessor().setCapabilities(capabilities);
     this.joinBuilder = new JoinBuilder(this.model, this.requestId);
 
     this.cacheManager = new CacheManager(
@@ -55,6 +101,29 @@ export class AdvancedQueryBuilder extends BasicQueryBuilder {
     }
 
     this.currentOptions.pagination = validation.data;
+    delete this.currentOptions.cursorPagination;
+    return this;
+  }
+
+  /**
+   * Set cursor (keyset) pagination options
+   */
+  public withCursorPagination(options: CursorPaginationOptions): AdvancedQueryBuilder {
+    const validation = ValidationUtils.validateCursorPagination(options, this.requestId);
+    if (!validation.isValid) {
+      throw validation.error;
+    }
+
+    this.currentOptions.cursorPagination = validation.data;
+    delete this.currentOptions.pagination;
+    return this;
+  }
+
+  /**
+   * Set the strategy used to compute the total for paginated queries
+   */
+  public withCountStrategy(strategy: CountStrategyOption): AdvancedQueryBuilder {
+    this.currentOptions.countStrategy = CountStrategies.normalize(strategy, this.requestId);
     return this;
   }
 
@@ -67,6 +136,12 @@ export class AdvancedQueryBuilder extends BasicQueryBuilder {
       throw validation.error;
     }
 
+    // Parse bracket, RSQL and OData filters up front so invalid input and limits are reported
+    // here; the guard sees the same tree `execute()` compiles
+    new FilterComplexityGuard(this.filterBuilder.getProcessor().getLimits(), this.requestId).check(
+      this.filterBuilder.optionsToAst(validation.data)
+    );
+
     this.currentOptions.filters = validation.data;
     return this;
   }
@@ -122,6 +197,83 @@ export class AdvancedQueryBuilder extends BasicQueryBuilder {
     return this;
   }
 
+  /**
+   * Set the full-text search provider used for `search`/`searchFields`
+   */
+  public withSearchProvider(provider: SearchProvider): AdvancedQueryBuilder {
+    this.filterBuilder.setSearchProvider(provider);
+    return this;
+  }
+
+  /**
+   * Select the search relevance as a `rank` attribute, which can also be sorted on
+   */
+  public withSearchRank(enabled: boolean = true): AdvancedQueryBuilder {
+    this.currentOptions.searchRank = enabled;
+    return this;
+  }
+
+  /**
+   * Derive filter and sort schemas from the model's attributes and associations.
+   * With `strict`, filters and sorts on fields outside the schemas are rejected.
+   */
+  public withModelSchema(
+    options: SchemaGeneratorOptions & { strict?: boolean } = {}
+  ): AdvancedQueryBuilder {
+    const { strict = false, ...generatorOptions } = options;
+    const { filterSchema, sortSchema } = new SchemaGenerator(generatorOptions).generate(this.model);
+
+    this.filterBuilder.getProcessor().setSchema(filterSchema);
+    this.filterBuilder.getProcessor().setStrict(strict);
+    this.sortBuilder.getProcessor().setSchema(sortSchema);
+    this.sortBuilder.getProcessor().setStrict(strict);
+    return this;
+  }
+
+  /**
+   * Set the IANA time zone used to resolve relative date filters such as `this_month`
+   */
+  public withTimeZone(timeZone: string): AdvancedQueryBuilder {
+    this.filterBuilder.getProcessor().getDateResolver().setTimeZone(timeZone);
+    return this;
+  }
+
+  /**
+   * Apply OData query options ($filter, $orderby, $top, $skip, $select, $count)
+   */
+  public withODataQuery(query: string | Record<string, any>): AdvancedQueryBuilder {
+    const odata = new ODataQueryParser(
+      this.filterBuilder.getProcessor().getSchema(),
+      this.requestId
+    ).parse(query);
+
+    if (odata.filterExpression !== undefined) {
+      this.withFilters({ ...this.currentOptions.filters, odata: odata.filterExpression });
+    }
+
+    if (odata.orderBy.length > 0) {
+      this.withSortings(odata.orderBy);
+    }
+
+    if (odata.top !== undefined || odata.skip !== undefined) {
+      this.withPagination({
+        offset: odata.skip ?? 0,
+        ...(odata.top !== undefined && { limit: odata.top }),
+      });
+    }
+
+    // Paginated results carry the total already; otherwise return it as `count`
+    if (odata.count) {
+      this.withTotalCount();
+    }
+
+    if (odata.select) {
+      this.withAttributes(odata.select);
+    }
+
+    return this;
+  }
+
   /**
    * Set where conditions
    */
@@ -162,6 +314,49 @@ export class AdvancedQueryBuilder extends BasicQueryBuilder {
     return this;
   }
 
+  /**
+   * Enable deferred-join pagination (primary keys first, then full rows)
+   */
+  public withDeferredJoin(
+    options: Partial<DeferredJoinOptions> | boolean = true
+  ): AdvancedQueryBuilder {
+    if (options === false) {
+      delete this.currentOptions.deferredJoin;
+      return this;
+    }
+
+    const minOffset = options === true ? 0 : (options.minOffset ?? 0);
+    if (!Number.isInteger(minOffset) || minOffset < 0) {
+      throw new ValidationError(
+        'Deferred join minOffset must be a non-negative integer',
+        'INVALID_DEFERRED_JOIN_OPTIONS',
+        'minOffset',
+        minOffset,
+        { options },
+        this.requestId
+      );
+    }
+
+    this.currentOptions.deferredJoin = { minOffset };
+    return this;
+  }
+
+  /**
+   * Return the number of matching rows as `count` for queries without pagination
+   */
+  public withTotalCount(enabled: boolean = true): AdvancedQueryBuilder {
+    this.currentOptions.totalCount = enabled;
+    return this;
+  }
+
+  /**
+   * Run the total count and the data query in parallel for paginated queries
+   */
+  public withParallelCount(parallel: boolean = true): AdvancedQueryBuilder {
+    this.currentOptions.parallelCount = parallel;
+    return this;
+  }
+
   /**
    * Enable benchmarking
    */
@@ -206,9 +401,25 @@ export class AdvancedQueryBuilder extends BasicQueryBuilder {
       // Build query options
       const queryOptions = await this.buildQueryOptions();
 
+      // Inexact count strategies probe one extra row to detect the next page
+      const countStrategy = this.getCountStrategy();
+      const probe = !!this.currentOptions.pagination && countStrategy.type !== 'exact';
+      if (probe) {
+        queryOptions.limit += 1;
+      }
+
+      // Exact counts do not depend on the page, so they can run alongside the data query
+      const parallelCount =
+        !!this.currentOptions.pagination &&
+        !!this.currentOptions.parallelCount &&
+        countStrategy.type === 'exact';
+
       // Execute query
       const startTime = Date.now();
-      const result = await (this.model as any).findAll(queryOptions);
+      const [result, parallelTotal] = await Promise.all([
+        this.findRows(queryOptions),
+        parallelCount ? this.getTotalCount(queryOptions) : Promise.resolve(undefined),
+      ]);
       const executionTime = Date.now() - startTime;
 
       this.performanceMonitor.recordQueryExecution(monitorId, executionTime);
@@ -217,16 +428,30 @@ export class AdvancedQueryBuilder extends BasicQueryBuilder {
       let finalResult: QueryResult;
       if (this.currentOptions.pagination) {
         const pagination = this.paginationBuilder.process(this.currentOptions.pagination);
-        const total = await this.getTotalCount(queryOptions);
+        const hasMore = probe && result.length > pagination.limit;
+        const data = probe ? result.slice(0, pagination.limit) : result;
+        const countInfo =
+          parallelTotal !== undefined
+            ? { total: parallelTotal, exact: true, strategy: 'exact' as const }
+            : await this.resolveTotalCount(
+                queryOptions,
+                countStrategy,
+                pagination.offset,
+                data.length,
+                hasMore
+              );
         finalResult = this.paginationBuilder.buildResult(
-          result,
-          total,
+          data,
+          countInfo.total,
           pagination.page,
-          pagination.pageSize
+          pagination.pageSize,
+          countInfo
         );
       } else {
         finalResult = {
           data: result,
+          // Without pagination every matching row is returned, so the total is the row count
+          ...(this.currentOptions.totalCount && { count: result.length }),
           performance: {
             executionTime,
             queryCount: 1,
@@ -253,7 +478,7 @@ export class AdvancedQueryBuilder extends BasicQueryBuilder {
       return finalResult;
     } catch (error) {
       this.performanceMonitor.endMonitoring(monitorId);
-      throw QueryError.fromError(error as Error, 'ADVANCED_QUERY_ERROR', this.requestId);
+      throw this.toQueryError(error, 'ADVANCED_QUERY_ERROR');
     }
   }
 
@@ -287,14 +512,16 @@ export class AdvancedQueryBuilder extends BasicQueryBuilder {
 
       // Execute query
       const startTime = Date.now();
-      const result = await (this.model as any).findAndCountAll(queryOptions);
+      const result = await (this.model as any).findAndCountAll(
+        this.withDistinctCount(queryOptions)
+      );
       const executionTime = Date.now() - startTime;
 
       this.performanceMonitor.recordQueryExecution(monitorId, executionTime);
 
       const finalResult: QueryResult = {
         data: result.rows,
-        count: result.count,
+        count: Array.isArray(result.count) ? result.count.length : result.count,
         performance: {
           executionTime,
           queryCount: 1,
@@ -320,10 +547,425 @@ export class AdvancedQueryBuilder extends BasicQueryBuilder {
       return finalResult;
     } catch (error) {
       this.performanceMonitor.endMonitoring(monitorId);
-      throw QueryError.fromError(error as Error, 'ADVANCED_QUERY_COUNT_ERROR', this.requestId);
+      throw this.toQueryError(error, 'ADVANCED_QUERY_COUNT_ERROR');
     }
   }
 
+  /**
+   * Execute the query as a keyset page using the cursor pagination options
+   */
+  public async executeWithCursor(): Promise<CursorQueryResult> {
+    if (!this.currentOptions.cursorPagination) {
+      throw new PaginationError(
+        'Cursor pagination options are required, call withCursorPagination() first',
+        'CURSOR_PAGINATION_REQUIRED',
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        this.requestId
+      );
+    }
+
+    return await this.executeCursorPage(this.currentOptions.cursorPagination, 'cursor');
+  }
+
+  /**
+   * Execute the query as a Relay-style connection
+   */
+  public async executeAsConnection(args: ConnectionArgs = {}): Promise<Connection> {
+    const cursorOptions = this.paginationBuilder.processConnectionArgs(args, this.requestId);
+    const result = await this.executeCursorPage(
+      cursorOptions,
+      `connection:${JSON.stringify(cursorOptions)}`
+    );
+
+    const keys = this.getCursorKeys();
+    return this.paginationBuilder.buildConnection(
+      result.data,
+      result.pagination,
+      keys,
+      this.getCursorQueryHash(keys)
+    );
+  }
+
+  /**
+   * Fetch one keyset page for the given cursor options
+   */
+  private async executeCursorPage(
+    cursorOptions: CursorPaginationOptions,
+    cacheSuffix: string
+  ): Promise<CursorQueryResult> {
+    // Decode the cursor and build its seek condition up front so cursor errors surface as
+    // PaginationError
+    const keys = this.getCursorKeys();
+    const queryHash = this.getCursorQueryHash(keys);
+    const state = this.paginationBuilder.processCursor(cursorOptions, queryHash, this.requestId);
+    const cursorWhere = state.cursor
+      ? this.paginationBuilder.buildCursorWhere(keys, state.cursor, state.direction)
+      : null;
+
+    const context: QueryContext = {
+      method: 'findAll',
+      model: this.model,
+      options: this.currentOptions,
+      startTime: Date.now(),
+      requestId: this.requestId,
+    };
+
+    const monitorId = this.performanceMonitor.startMonitoring(context);
+
+    try {
+      // Check cache first
+      const cacheKey = this.generateCacheKey(cacheSuffix);
+      if (this.cacheManager.isEnabled()) {
+        const cached = await this.cacheManager.get(cacheKey);
+        if (cached) {
+          this.performanceMonitor.recordCacheHit(monitorId);
+          return cached;
+        }
+      }
+
+      // Build query options and apply the seek condition
+      const queryOptions = await this.buildQueryOptions();
+      if (cursorWhere) {
+        queryOptions.where = this.mergeWhere(queryOptions.where, cursorWhere);
+      }
+      queryOptions.order = this.paginationBuilder.buildCursorOrder(keys, state.direction);
+      queryOptions.limit = state.limit + 1;
+      this.ensureKeyAttributes(queryOptions, keys);
+
+      // Execute query
+      const startTime = Date.now();
+      const rows = await (this.model as any).findAll(queryOptions);
+      const executionTime = Date.now() - startTime;
+
+      this.performanceMonitor.recordQueryExecution(monitorId, executionTime);
+
+      const finalResult: CursorQueryResult = {
+        ...this.paginationBuilder.buildCursorResult(rows, keys, state, queryHash),
+        performance: {
+          executionTime,
+          queryCount: 1,
+          cacheHit: false,
+        },
+      };
+
+      // Cache result
+      if (this.cacheManager.isEnabled()) {
+        await this.cacheManager.set(cacheKey, finalResult);
+      }
+
+      // Record performance metrics
+      const metrics = this.performanceMonitor.endMonitoring(monitorId);
+      if (metrics) {
+        finalResult.performance = {
+          executionTime: metrics.totalExecutionTime,
+          queryCount: metrics.queryCount,
+          cacheHit: false,
+        };
+      }
+
+      return finalResult;
+    } catch (error) {
+      this.performanceMonitor.endMonitoring(monitorId);
+      throw this.toQueryError(error, 'CURSOR_QUERY_ERROR');
+    }
+  }
+
+  /**
+   * Iterate over all matching rows, fetched in keyset batches
+   */
+  public async *iterate(options: IterateOptions = {}): AsyncGenerator<any, void, undefined> {
+    for await (const batch of this.iterateBatches(options)) {
+      yield* batch;
+    }
+  }
+
+  /**
+   * Iterate over all matching rows in arrays of `batchSize`
+   *
+   * Batches are walked with the same seek condition as cursor pagination, so rows
+   * inserted during iteration do not shift later batches. Pagination options are ignored.
+   */
+  public async *iterateBatches(
+    options: IterateOptions = {}
+  ): AsyncGenerator<any[], void, undefined> {
+    const batchSize = options.batchSize ?? 100;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new ValidationError(
+        'Batch size must be a positive integer',
+        'INVALID_BATCH_SIZE',
+        'batchSize',
+        batchSize,
+        { options },
+        this.requestId
+      );
+    }
+
+    const keys = this.getCursorKeys();
+    const baseOptions = await this.buildQueryOptions();
+    delete baseOptions.offset;
+    baseOptions.order = this.paginationBuilder.buildCursorOrder(keys);
+    baseOptions.limit = batchSize;
+    this.ensureKeyAttributes(baseOptions, keys);
+
+    let cursor: Record<string, any> | null = null;
+
+    while (true) {
+      const queryOptions = { ...baseOptions };
+      if (cursor) {
+        queryOptions.where = this.mergeWhere(
+          baseOptions.where,
+          this.paginationBuilder.buildCursorWhere(keys, cursor)
+        );
+      }
+
+      let rows: any[];
+      try {
+        rows = await (this.model as any).findAll(queryOptions);
+      } catch (error) {
+        throw this.toQueryError(error, 'ITERATE_ERROR');
+      }
+
+      if (rows.length === 0) {
+        return;
+      }
+
+      yield rows;
+
+      if (rows.length < batchSize) {
+        return;
+      }
+
+      cursor = this.paginationBuilder.extractCursorValues(rows[rows.length - 1], keys);
+    }
+  }
+
+  /**
+   * Make sure the keyset columns are selected so cursors can be read from rows
+   */
+  private ensureKeyAttributes(queryOptions: any, keys: CursorSortKey[]): void {
+    if (!Array.isArray(queryOptions.attributes)) {
+      return;
+    }
+
+    const missing = keys
+      .map(key => key.column)
+      .filter(column => !queryOptions.attributes.includes(column));
+    if (missing.length > 0) {
+      queryOptions.attributes = [...queryOptions.attributes, ...missing];
+    }
+  }
+
+  /**
+   * Fetch the rows for a query, using a deferred join when enabled
+   */
+  private async findRows(queryOptions: any): Promise<any[]> {
+    const deferredJoin = this.currentOptions.deferredJoin;
+    if (
+      !deferredJoin ||
+      queryOptions.limit === undefined ||
+      queryOptions.group ||
+      (queryOptions.offset || 0) < deferredJoin.minOffset
+    ) {
+      return await (this.model as any).findAll(queryOptions);
+    }
+
+    return await this.findRowsDeferred(queryOptions);
+  }
+
+  /**
+   * Late row lookup: page over primary keys only, then load full rows by `pk IN (...)`
+   *
+   * Only includes that restrict the parent rows (required, filtered or referenced by a
+   * `$association.column$` condition) or that the sort order references take part in the
+   * key phase, so LIMIT applies to parent rows rather than joined rows.
+   */
+  private async findRowsDeferred(queryOptions: any): Promise<any[]> {
+    const model = this.model as any;
+    const primaryKey = model.primaryKeyAttribute || 'id';
+
+    const keyOptions: any = {
+      where: queryOptions.where,
+      order: queryOptions.order,
+      offset: queryOptions.offset,
+      limit: queryOptions.limit,
+      attributes: [primaryKey],
+      raw: true,
+    };
+
+    const sortReferences = this.getOrderIncludeReferences(queryOptions.order);
+    const keyPaths = [
+      ...sortReferences.map(reference => reference.path),
+      ...this.collectAssociationPaths(queryOptions.where).map(path => path.split('.')),
+    ];
+    const keyIncludes = (queryOptions.include || [])
+      .filter(
+        (include: any) => include.required || include.where || this.isOnPaths(include, keyPaths)
+      )
+      .map((include: any) => this.toFilteringInclude(include, keyPaths));
+
+    if (keyIncludes.length > 0) {
+      keyOptions.include = keyIncludes;
+      keyOptions.subQuery = false;
+      // Sorted included columns have to be grouped to be ordered by
+      keyOptions.group = [
+        col(`${model.name}.${primaryKey}`),
+        ...sortReferences.map(reference => reference.expression),
+      ];
+    }
+
+    ['logging', 'benchmark'].forEach(option => {
+      if (queryOptions[option] !== undefined) {
+        keyOptions[option] = queryOptions[option];
+      }
+    });
+
+    const keyRows = await model.findAll(keyOptions);
+    const ids = keyRows.map((row: any) => row[primaryKey]);
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const rowOptions = { ...queryOptions, where: { [primaryKey]: { [Op.in]: ids } } };
+    delete rowOptions.offset;
+    delete rowOptions.limit;
+
+    const rows = await model.findAll(rowOptions);
+
+    // Restore the order produced by the key phase
+    const positions = new Map<string, number>(
+      ids.map((id: any, index: number) => [String(id), index])
+    );
+    const positionOf = (row: any): number => {
+      const id = typeof row?.get === 'function' ? row.get(primaryKey) : row?.[primaryKey];
+      return positions.get(String(id)) ?? Number.MAX_SAFE_INTEGER;
+    };
+
+    return rows.sort((a: any, b: any) => positionOf(a) - positionOf(b));
+  }
+
+  /**
+   * Strip selected columns from an include that only serves to filter or sort parent rows.
+   * Nested includes on one of `paths` (association aliases below this include) are kept.
+   */
+  private toFilteringInclude(include: any, paths: string[][] = []): any {
+    const filtering: any = { ...include, attributes: [] };
+    if (Array.isArray(include.include)) {
+      const nestedPaths = paths
+        .filter(path => path[0] === this.getIncludeAlias(include))
+        .map(path => path.slice(1));
+      filtering.include = include.include
+        .filter(
+          (nested: any) => nested.required || nested.where || this.isOnPaths(nested, nestedPaths)
+        )
+        .map((nested: any) => this.toFilteringInclude(nested, nestedPaths));
+    }
+    return filtering;
+  }
+
+  private getIncludeAlias(include: any): string | undefined {
+    return include?.as ?? include?.model?.name;
+  }
+
+  private isOnPaths(include: any, paths: string[][]): boolean {
+    return paths.some(path => path.length > 0 && path[0] === this.getIncludeAlias(include));
+  }
+
+  /**
+   * Find the association paths an order references, e.g. `$author.name$`, `author.name`,
+   * `col('author.name')` or `[{ model, as: 'author' }, 'name', 'ASC']`, with the column
+   * expression each item sorts by
+   */
+  private getOrderIncludeReferences(order: any): { path: string[]; expression: any }[] {
+    if (!Array.isArray(order)) {
+      return [];
+    }
+
+    const toPath = (reference: string): string[] =>
+      reference
+        .replace(/^\$|\$$/g, '')
+        .split('.')
+        .slice(0, -1);
+    const findColumn = (expression: any): string | null => {
+      if (typeof expression === 'string') {
+        return expression.includes('.') ? expression : null;
+      }
+      if (typeof expression?.col === 'string') {
+        return expression.col.includes('.') ? expression.col : null;
+      }
+      if (Array.isArray(expression?.args)) {
+        return expression.args.map(findColumn).find(Boolean) ?? null;
+      }
+      return null;
+    };
+
+    return order.flatMap((item: any) => {
+      if (!Array.isArray(item)) {
+        return [];
+      }
+
+      const associations = item.filter(
+        (part: any) => part && typeof part === 'object' && typeof part.as === 'string'
+      );
+      if (associations.length > 0) {
+        const path = associations.map((association: any) => association.as);
+        const column = item[associations.length];
+        return typeof column === 'string'
+          ? [{ path, expression: col(`${path.join('.')}.${column}`) }]
+          : [];
+      }
+
+      const reference = findColumn(item[0]);
+      if (!reference) {
+        return [];
+      }
+      const expression =
+        typeof item[0] === 'string' ? col(item[0].replace(/^\$|\$$/g, '')) : item[0];
+      return [{ path: toPath(reference), expression }];
+    });
+  }
+
+  /**
+   * Get the keyset columns from the active sorting plus the primary key
+   */
+  private getCursorKeys(): CursorSortKey[] {
+    const sorts: CursorSortKey[] = (this.currentOptions.sorting || []).map(sort => ({
+      column: sort.column,
+      order: sort.order,
+    }));
+
+    const cursorOptions = this.currentOptions.cursorPagination;
+    if (sorts.length === 0 && cursorOptions?.sortField) {
+      sorts.push({ column: cursorOptions.sortField, order: cursorOptions.sortOrder || 'ASC' });
+    }
+
+    const primaryKey = (this.model as any).primaryKeyAttribute || 'id';
+    return this.paginationBuilder.resolveCursorKeys(sorts, primaryKey);
+  }
+
+  /**
+   * Hash the filter/sort set so cursors cannot be replayed against another query
+   */
+  private getCursorQueryHash(keys: CursorSortKey[]): string {
+    return CursorCodec.hashQuery({
+      filters: this.currentOptions.filters,
+      where: this.currentOptions.where,
+      keys,
+    });
+  }
+
+  /**
+   * Combine two where clauses with AND
+   */
+  private mergeWhere(where: any, extra: any): any {
+    if (!where || Reflect.ownKeys(where).length === 0) {
+      return extra;
+    }
+    return { [Op.and]: [where, extra] };
+  }
+
   /**
    * Build query options from current configuration
    */
@@ -355,7 +997,13 @@ export class AdvancedQueryBuilder extends BasicQueryBuilder {
 
     // Handle sorting
     if (this.currentOptions.sorting) {
-      const sortResult = this.sortBuilder.processFromOptions(this.currentOptions.sorting[0]);
+      // The search `rank` attribute is sortable even when a strict schema omits it
+      const sortProcessor = this.sortBuilder.getProcessor();
+      if (this.currentOptions.searchRank && !sortProcessor.getSchema()['rank']) {
+        sortProcessor.setSchema({ ...sortProcessor.getSchema(), rank: { allowed: true } });
+      }
+
+      const sortResult = this.sortBuilder.processFromOptions(this.currentOptions.sorting);
       if (sortResult.errors.length > 0) {
         throw new ValidationError(
           `Sort errors: ${sortResult.errors.join(', ')}`,
@@ -384,6 +1032,16 @@ export class AdvancedQueryBuilder extends BasicQueryBuilder {
       options.where = { ...options.where, ...this.currentOptions.where };
     }
 
+    if (this.currentOptions.searchRank) {
+      this.applySearchRank(options);
+    }
+
+    // Include the associations referenced by `$association.column$` conditions
+    const associationPaths = this.collectAssociationPaths(options.where);
+    if (associationPaths.length > 0) {
+      options.include = this.joinBuilder.buildWithAssociationPaths(associationPaths);
+    }
+
     if (this.currentOptions.group) {
       options.group = this.currentOptions.group;
     }
@@ -411,17 +1069,244 @@ export class AdvancedQueryBuilder extends BasicQueryBuilder {
     return options;
   }
 
+  /**
+   * Add the search `rank` attribute and resolve `rank` in the sort order
+   */
+  private applySearchRank(options: any): void {
+    const search: string | undefined = this.currentOptions.filters?.['search'];
+    const searchFields: string[] | undefined = this.currentOptions.filters?.['searchFields'];
+    if (!search || !searchFields || searchFields.length === 0) {
+      return;
+    }
+
+    const query = new SearchQueryParser().parse(search);
+    if (SearchQueryParser.isEmpty(query)) {
+      return;
+    }
+
+    const provider = this.filterBuilder.getSearchProvider();
+    if (!provider.buildRank) {
+      throw new ValidationError(
+        `Search provider '${provider.name}' does not support ranking`,
+        'SEARCH_RANK_UNSUPPORTED',
+        'search',
+        search,
+        { provider: provider.name },
+        this.requestId
+      );
+    }
+
+    const rank = provider.buildRank(query, searchFields, this.filterBuilder.getSearchContext());
+
+    options.attributes = Array.isArray(options.attributes)
+      ? [...options.attributes, [rank, 'rank']]
+      : { include: [[rank, 'rank']] };
+
+    if (Array.isArray(options.order)) {
+      options.order = options.order.map((entry: any) =>
+        Array.isArray(entry) && entry[0] === 'rank' ? [rank, entry[1]] : entry
+      );
+    }
+  }
+
+  /**
+   * Collect the association paths of `$association.column$` keys in a where tree
+   */
+  private collectAssociationPaths(where: any, paths: Set<string> = new Set()): string[] {
+    if (where && typeof where === 'object') {
+      Reflect.ownKeys(where).forEach(key => {
+        const match = typeof key === 'string' ? /^\$(.+)\.[^.]+\$$/.exec(key) : null;
+        if (match) {
+          paths.add(match[1] as string);
+        }
+        this.collectAssociationPaths(where[key], paths);
+      });
+    }
+    return Array.from(paths);
+  }
+
   /**
    * Get total count for pagination
    */
   private async getTotalCount(queryOptions: any): Promise<number> {
-    const countOptions = { ...queryOptions };
+    const countOptions = this.withDistinctCount({ ...queryOptions });
     delete countOptions.offset;
     delete countOptions.limit;
     delete countOptions.order;
     delete countOptions.attributes;
 
-    return await (this.model as any).count(countOptions);
+    // Grouped counts return one row per group, so the total is the number of groups
+    const count = await (this.model as any).count(countOptions);
+    return Array.isArray(count) ? count.length : count;
+  }
+
+  /**
+   * Count parent rows rather than joined rows when includes are present
+   */
+  private withDistinctCount(queryOptions: any): any {
+    const hasIncludes = Array.isArray(queryOptions.include) && queryOptions.include.length > 0;
+    if (!hasIncludes && !queryOptions.distinct) {
+      return queryOptions;
+    }
+
+    const primaryKey = (this.model as any).primaryKeyAttribute || 'id';
+    return {
+      ...queryOptions,
+      distinct: true,
+      col: queryOptions.col || primaryKey,
+    };
+  }
+
+  /**
+   * Get the active count strategy, falling back to the configured default
+   */
+  private getCountStrategy(): CountStrategy {
+    return CountStrategies.normalize(
+      this.currentOptions.countStrategy || this.config.countStrategy,
+      this.requestId
+    );
+  }
+
+  /**
+   * Resolve the total for a paginated query using the given count strategy
+   */
+  private async resolveTotalCount(
+    queryOptions: any,
+    strategy: CountStrategy,
+    offset: number,
+    pageLength: number,
+    hasMore: boolean
+  ): Promise<CountInfo> {
+    // Rows seen so far are a lower bound; without further rows it is the exact total
+    const seen = offset + pageLength + (hasMore ? 1 : 0);
+    const pageIsConclusive = !hasMore && (pageLength > 0 || offset === 0);
+
+    switch (strategy.type) {
+      case 'none':
+        return {
+          total: offset + pageLength,
+          exact: pageIsConclusive,
+          strategy: 'none',
+          hasNext: hasMore,
+        };
+
+      case 'capped': {
+        if (pageIsConclusive) {
+          return { total: seen, exact: true, strategy: 'capped', hasNext: false };
+        }
+        const count = await this.getCappedCount(queryOptions, strategy.limit);
+        const exact = count <= strategy.limit;
+        return {
+          total: exact ? count : Math.max(strategy.limit, seen),
+          exact,
+          strategy: 'capped',
+          hasNext: hasMore,
+        };
+      }
+
+      case 'estimated': {
+        const estimate = await this.getEstimatedCount(queryOptions);
+        if (estimate !== null) {
+          return {
+            total: Math.max(estimate, seen),
+            exact: false,
+            strategy: 'estimated',
+            hasNext: hasMore,
+          };
+        }
+        // Planner estimates are unavailable on this dialect, count exactly
+        const total = await this.getTotalCount(queryOptions);
+        return { total, exact: true, strategy: 'exact', hasNext: hasMore };
+      }
+
+      default:
+        return {
+          total: await this.getTotalCount(queryOptions),
+          exact: true,
+          strategy: 'exact',
+        };
+    }
+  }
+
+  /**
+   * Count matching rows (or groups for grouped queries), stopping after `limit + 1`
+   */
+  private async getCappedCount(queryOptions: any, limit: number): Promise<number> {
+    const model = this.model as any;
+    const primaryKey = model.primaryKeyAttribute || 'id';
+    const countOptions: any = {
+      where: queryOptions.where,
+      attributes: [primaryKey],
+      limit: limit + 1,
+      raw: true,
+    };
+
+    // Only includes that restrict parent rows matter; group by the key to avoid joined rows
+    const filteringIncludes = (queryOptions.include || [])
+      .filter((include: any) => include.required || include.where)
+      .map((include: any) => this.toFilteringInclude(include));
+
+    if (filteringIncludes.length > 0) {
+      countOptions.include = filteringIncludes;
+      countOptions.subQuery = false;
+      countOptions.group = [col(`${model.name}.${primaryKey}`)];
+    }
+
+    // Grouped queries return one row per group, so select the groups and stop after `limit + 1`
+    if (queryOptions.group) {
+      countOptions.attributes = queryOptions.group;
+      countOptions.group = queryOptions.group;
+      if (queryOptions.having) {
+        countOptions.having = queryOptions.having;
+      }
+    }
+
+    const rows = await model.findAll(countOptions);
+    return rows.length;
+  }
+
+  /**
+   * Read the planner row estimate via EXPLAIN, or null when unsupported
+   */
+  private async getEstimatedCount(queryOptions: any): Promise<number | null> {
+    const model = this.model as any;
+    const sequelize = model.sequelize;
+    const dialect = sequelize?.getDialect?.();
+
+    // Joined and grouped queries do not map onto a single planner row estimate
+    if (!['postgres', 'mysql', 'mariadb'].includes(dialect)) return null;
+    if (queryOptions.include || queryOptions.group) return null;
+
+    try {
+      const sql = sequelize
+        .getQueryInterface()
+        .queryGenerator.selectQuery(
+          model.getTableName(),
+          { where: queryOptions.where, attributes: [model.primaryKeyAttribute || 'id'] },
+          model
+        )
+        .replace(/;\s*$/, '');
+
+      if (dialect === 'postgres') {
+        const rows: any[] = await sequelize.query(`EXPLAIN (FORMAT JSON) ${sql}`, {
+          type: QueryTypes.SELECT,
+        });
+        const plan = rows[0]?.['QUERY PLAN'];
+        const estimate = (typeof plan === 'string' ? JSON.parse(plan) : plan)?.[0]?.Plan?.[
+          'Plan Rows'
+        ];
+        return typeof estimate === 'number' ? Math.round(estimate) : null;
+      }
+
+      const rows: any[] = await sequelize.query(`EXPLAIN ${sql}`, { type: QueryTypes.SELECT });
+      const first = rows[0];
+      if (!first || first.rows === undefined || first.rows === null) return null;
+      const filtered =
+        first.filtered !== undefined && first.filtered !== null ? first.filtered : 100;
+      return Math.round((Number(first.rows) * Number(filtered)) / 100);
+    } catch {
+      return null;
+    }
   }
 
   /**
@@ -432,6 +1317,32 @@ export class AdvancedQueryBuilder extends BasicQueryBuilder {
     return this.cacheManager.generateKey('query', ...keyParts);
   }
 
+  /**
+   * Wrap an unexpected error in a QueryError; validation, query and pagination errors are
+   * passed through unchanged
+   */
+  private toQueryError(error: unknown, code: string): Error {
+    if (
+      error instanceof ValidationError ||
+      error instanceof QueryError ||
+      error instanceof PaginationError
+    ) {
+      return error;
+    }
+    return QueryError.fromError(error as Error, code, this.requestId);
+  }
+
+  private invalidSerialized(message: string, field: string, value: any): ValidationError {
+    return new ValidationError(
+      message,
+      'INVALID_SERIALIZED_QUERY',
+      field,
+      value,
+      undefined,
+      this.requestId
+    );
+  }
+
   /**
    * Reset the query builder
    */
@@ -450,6 +1361,112 @@ export class AdvancedQueryBuilder extends BasicQueryBuilder {
     return { ...this.currentOptions };
   }
 
+  /**
+   * Serialize the current options into the versioned format described in `QuerySerializer`
+   */
+  public serialize(): SerializedQuery {
+    return QuerySerializer.wrap({ options: this.currentOptions });
+  }
+
+  /**
+   * Replace the current options with ones produced by `serialize()`. Model references
+   * are resolved by name against this builder's Sequelize instance. Every option is
+   * validated again as if passed to its `with*` method: `where`/`having` may only use
+   * model columns and safe operators, `attributes`/`group` must name model columns, and
+   * unknown options are rejected.
+   */
+  public restore(serialized: SerializedQuery | string): AdvancedQueryBuilder {
+    const { options } = QuerySerializer.unwrap(
+      serialized,
+      name => (this.model as any).sequelize?.models?.[name],
+      this.requestId,
+      ['options.where', 'options.having']
+    );
+    if (options === null || typeof options !== 'object' || Array.isArray(options)) {
+      throw this.invalidSerialized(
+        'Serialized query must contain an "options" object',
+        'options',
+        options
+      );
+    }
+
+    const {
+      pagination,
+      cursorPagination,
+      countStrategy,
+      filters,
+      sorting,
+      joins,
+      attributes,
+      where,
+      group,
+      having,
+      deferredJoin,
+      ...flags
+    } = options as AdvancedQueryOptions;
+
+    Object.entries(flags).forEach(([key, value]) => {
+      if (!AdvancedQueryBuilder.RESTORABLE_FLAGS.includes(key as keyof AdvancedQueryOptions)) {
+        throw this.invalidSerialized(`Option "${key}" cannot be restored`, `options.${key}`, value);
+      }
+      if (typeof value !== 'boolean') {
+        throw this.invalidSerialized(`Option "${key}" must be a boolean`, `options.${key}`, value);
+      }
+    });
+
+    const validations = [
+      where !== undefined &&
+        ValidationUtils.validateWhere(where, this.model, 'where', this.requestId),
+      having !== undefined &&
+        ValidationUtils.validateWhere(having, this.model, 'having', this.requestId),
+      attributes !== undefined &&
+        ValidationUtils.validateColumns(attributes, this.model, 'attributes', this.requestId),
+      group !== undefined &&
+        ValidationUtils.validateColumns(group, this.model, 'group', this.requestId),
+    ];
+    validations.forEach(validation => {
+      if (validation && !validation.isValid) {
+        throw validation.error;
+      }
+    });
+
+    this.currentOptions = { ...flags };
+    if (where !== undefined) {
+      this.withWhere(where);
+    }
+    if (having !== undefined) {
+      this.withHaving(having);
+    }
+    if (attributes !== undefined) {
+      this.withAttributes(attributes);
+    }
+    if (group !== undefined) {
+      this.withGroup(group);
+    }
+    if (countStrategy !== undefined) {
+      this.withCountStrategy(countStrategy);
+    }
+    if (deferredJoin !== undefined) {
+      this.withDeferredJoin(deferredJoin);
+    }
+    if (pagination) {
+      this.withPagination(pagination);
+    }
+    if (cursorPagination) {
+      this.withCursorPagination(cursorPagination);
+    }
+    if (filters) {
+      this.withFilters(filters);
+    }
+    if (sorting) {
+      this.withSortings(sorting);
+    }
+    if (joins) {
+      this.withJoins(joins);
+    }
+    return this;
+  }
+
   /**
    * Get pagination builder
    */
@@ -1,13 +1,41 @@
-// import { WhereOptions } from 'sequelize';
-import { FilterOptions, FilterCondition, FilterGroup, FilterResult } from '../types/FilterTypes';
+import {
+  FilterOptions,
+  FilterCondition,
+  FilterGroup,
+  FilterResult,
+  FilterNode,
+  FilterAstTransform,
+  SearchNode,
+  SerializedFilters,
+} from '../types/FilterTypes';
+import { SearchContext, SearchProvider } from '../types/SearchTypes';
 import { FilterProcessor } from '../utils/FilterProcessor';
+import { FilterAst } from '../utils/FilterAst';
+import { QueryStringFilterParser } from '../utils/QueryStringFilterParser';
+import { RsqlParser } from '../utils/RsqlParser';
+import { RsqlSerializer } from '../utils/RsqlSerializer';
+import { ODataQueryParser } from '../utils/ODataQueryParser';
+import { MongoFilterTranslator } from '../utils/MongoFilterTranslator';
+import { SearchQueryParser } from '../utils/SearchQueryParser';
+import { LikeSearchProvider } from '../utils/SearchProviders';
 import { ValidationUtils } from '../utils/ValidationUtils';
+import { QuerySerializer } from '../utils/QuerySerializer';
 import { ValidationError } from '../errors/ValidationError';
 
+type Connective = 'and' | 'or';
+
+interface FilterEntry {
+  connective: Connective;
+  node: FilterNode;
+}
+
 export class FilterBuilder {
-  private filters: FilterCondition[] = [];
+  private entries: FilterEntry[] = [];
   private processor: FilterProcessor;
   private requestId: string;
+  private searchProvider: SearchProvider = new LikeSearchProvider();
+  private searchContext: SearchContext = {};
+  private transforms: FilterAstTransform[] = [];
 
   constructor(requestId?: string) {
     this.requestId = requestId || ValidationUtils.generateRequestId();
@@ -15,11 +43,11 @@ export class FilterBuilder {
   }
 
   /**
-   * Add a filter condition
+   * Add a filter condition, joined to the previous ones with AND (default) or OR
    */
-  public addFilter(condition: FilterCondition): FilterBuilder {
+  public addFilter(condition: FilterCondition, connective: Connective = 'and'): FilterBuilder {
     this.validateCondition(condition);
-    this.filters.push(condition);
+    this.entries.push({ connective, node: FilterAst.fromFilters(condition) });
     return this;
   }
 
@@ -32,16 +60,55 @@ export class FilterBuilder {
   }
 
   /**
-   * Add a filter group
+   * Add a filter group as one nested term
    */
-  public addFilterGroup(group: FilterGroup): FilterBuilder {
+  public addFilterGroup(group: FilterGroup, connective: Connective = 'and'): FilterBuilder {
     this.validateFilterGroup(group);
-    // Convert group to individual conditions for now
-    // In a more advanced implementation, we would handle groups properly
-    this.flattenFilterGroup(group);
+    this.entries.push({ connective, node: FilterAst.fromFilters(group) });
     return this;
   }
 
+  /**
+   * Add an AST node as one term
+   */
+  public addNode(node: FilterNode, connective: Connective = 'and'): FilterBuilder {
+    FilterAst.visit(node, {
+      comparison: comparison => this.validateCondition(FilterAst.toCondition(comparison)),
+    });
+    this.entries.push({ connective, node });
+    return this;
+  }
+
+  /**
+   * Add an equality filter joined with OR
+   */
+  public orWhere(field: string, value: any): FilterBuilder {
+    return this.addFilter(
+      {
+        field,
+        operator: 'eq',
+        value,
+      },
+      'or'
+    );
+  }
+
+  /**
+   * Add a parenthesized group built by the callback, joined with AND
+   */
+  public whereGroup(callback: (builder: FilterBuilder) => void): FilterBuilder {
+    const node = this.buildNested(callback);
+    return node ? this.addNode(node) : this;
+  }
+
+  /**
+   * Add a parenthesized group built by the callback, joined with OR
+   */
+  public orWhereGroup(callback: (builder: FilterBuilder) => void): FilterBuilder {
+    const node = this.buildNested(callback);
+    return node ? this.addNode(node, 'or') : this;
+  }
+
   /**
    * Add a simple equality filter
    */
@@ -54,11 +121,21 @@ export class FilterBuilder {
   }
 
   /**
-   * Add a not equal filter
+   * Add a not equal filter, or negate the group built by a callback
    */
-  public whereNot(field: string, value: any): FilterBuilder {
+  public whereNot(field: string, value: any): FilterBuilder;
+  public whereNot(callback: (builder: FilterBuilder) => void): FilterBuilder;
+  public whereNot(
+    fieldOrCallback: string | ((builder: FilterBuilder) => void),
+    value?: any
+  ): FilterBuilder {
+    if (typeof fieldOrCallback === 'function') {
+      const node = this.buildNested(fieldOrCallback);
+      return node ? this.addNode(FilterAst.not(node)) : this;
+    }
+
     return this.addFilter({
-      field,
+      field: fieldOrCallback,
       operator: 'ne',
       value,
     });
@@ -111,17 +188,18 @@ export class FilterBuilder {
   /**
    * Add a like filter
    */
-  public whereLike(field: string, value: string, caseSensitive: boolean = true): FilterBuilder {
+  public whereLike(field: string, value: string, caseSensitive: boolean = false): FilterBuilder {
     return this.addFilter({
       field,
       operator: caseSensitive ? 'like' : 'iLike',
       value,
       caseSensitive,
+      rawPattern: true,
     });
   }
 
   /**
-   * Add a not like filter
+   * Add a not like filter; case-sensitive unless `caseSensitive` is false
    */
   public whereNotLike(field: string, value: string, caseSensitive: boolean = true): FilterBuilder {
     return this.addFilter({
@@ -129,6 +207,7 @@ export class FilterBuilder {
       operator: caseSensitive ? 'notLike' : 'notILike',
       value,
       caseSensitive,
+      rawPattern: true,
     });
   }
 
@@ -204,7 +283,7 @@ export class FilterBuilder {
   public whereStartsWith(
     field: string,
     value: string,
-    caseSensitive: boolean = true
+    caseSensitive: boolean = false
   ): FilterBuilder {
     return this.addFilter({
       field,
@@ -217,7 +296,11 @@ export class FilterBuilder {
   /**
    * Add an ends with filter
    */
-  public whereEndsWith(field: string, value: string, caseSensitive: boolean = true): FilterBuilder {
+  public whereEndsWith(
+    field: string,
+    value: string,
+    caseSensitive: boolean = false
+  ): FilterBuilder {
     return this.addFilter({
       field,
       operator: 'endsWith',
@@ -229,7 +312,11 @@ export class FilterBuilder {
   /**
    * Add a contains filter
    */
-  public whereContains(field: string, value: string, caseSensitive: boolean = true): FilterBuilder {
+  public whereContains(
+    field: string,
+    value: string,
+    caseSensitive: boolean = false
+  ): FilterBuilder {
     return this.addFilter({
       field,
       operator: 'contains',
@@ -264,7 +351,52 @@ export class FilterBuilder {
    * Process filters and return Sequelize where options
    */
   public build(): FilterResult {
-    if (this.filters.length === 0) {
+    return this.compile(this.toAst());
+  }
+
+  /**
+   * Get the filters as an AST (before AST transforms are applied). As in SQL, AND binds
+   * tighter than OR: `a AND b OR c` becomes `(a AND b) OR c`.
+   */
+  public toAst(): FilterNode {
+    const runs: FilterNode[][] = [];
+    this.entries.forEach(entry => {
+      const run = runs[runs.length - 1];
+      if (run && entry.connective === 'and') {
+        run.push(entry.node);
+      } else {
+        runs.push([entry.node]);
+      }
+    });
+
+    if (runs.length <= 1) {
+      return FilterAst.and(...(runs[0] || []));
+    }
+    return FilterAst.or(
+      ...runs.map(run => (run.length === 1 ? (run[0] as FilterNode) : FilterAst.and(...run)))
+    );
+  }
+
+  /**
+   * Register a transform applied to the AST before it is compiled, e.g. to add a tenant
+   * predicate or map public field names to columns. Transforms run in registration order;
+   * a transform returning null leaves an empty (match-all) filter.
+   */
+  public addAstTransform(transform: FilterAstTransform): FilterBuilder {
+    this.transforms.push(transform);
+    return this;
+  }
+
+  /**
+   * Compile an AST through the registered transforms and the filter processor
+   */
+  public compile(node: FilterNode): FilterResult {
+    const root = this.transforms.reduce<FilterNode>(
+      (current, transform) => transform(current) ?? FilterAst.and(),
+      node
+    );
+
+    if (root.kind === 'group' && root.children.length === 0) {
       return {
         where: {},
         errors: [],
@@ -272,46 +404,301 @@ export class FilterBuilder {
       };
     }
 
-    return this.processor.process(this.filters);
+    return this.processor.processAst(root, search => this.compileSearch(search));
   }
 
   /**
    * Process filters from options object
    */
   public processFromOptions(options: FilterOptions): FilterResult {
-    const conditions: FilterCondition[] = [];
+    return this.compile(this.optionsToAst(options));
+  }
 
-    // Handle search functionality
-    if (options.search && options.searchFields) {
-      const searchConditions: FilterCondition[] = options.searchFields.map(field => ({
-        field,
-        operator: 'contains',
-        value: options.search,
-        caseSensitive: false,
-      }));
-
-      // Add OR condition for search
-      conditions.push({
-        field: '__search__',
-        operator: 'or',
-        value: searchConditions,
-      } as any);
-    }
+  /**
+   * Build the AST `processFromOptions` compiles. Parsed bracket, RSQL and OData filters
+   * that are AND groups are merged into the root, so they add no nesting level.
+   */
+  public optionsToAst(options: FilterOptions): FilterNode {
+    const conditions: FilterNode[] = [];
 
     // Handle other filter options
     Object.entries(options).forEach(([key, value]) => {
-      if (key === 'search' || key === 'searchFields') return;
+      if (['search', 'searchFields', 'filter', 'rsql', 'odata'].includes(key)) return;
 
       if (value !== undefined && value !== null) {
-        conditions.push({
-          field: key,
-          operator: 'eq',
-          value,
-        });
+        conditions.push(FilterAst.comparison(key, 'eq', value));
+      }
+    });
+
+    const groups: FilterNode[] = [];
+
+    // Handle bracket-syntax filters (filter[price][gte]=10)
+    if (options['filter'] !== undefined && options['filter'] !== null) {
+      groups.push(
+        FilterAst.fromFilters(
+          new QueryStringFilterParser({}, this.requestId).parseFilterObject(options['filter'])
+        )
+      );
+    }
+
+    // Handle RSQL expressions (name==John*;age=gt=30)
+    if (typeof options['rsql'] === 'string' && options['rsql'].trim() !== '') {
+      groups.push(
+        FilterAst.fromFilters(
+          new RsqlParser(this.processor.getSchema(), this.requestId).parse(options['rsql'])
+        )
+      );
+    }
+
+    // Handle OData $filter expressions (price ge 10 and contains(name,'x'))
+    if (typeof options['odata'] === 'string' && options['odata'].trim() !== '') {
+      groups.push(
+        FilterAst.fromFilters(
+          new ODataQueryParser(this.processor.getSchema(), this.requestId).parseFilter(
+            options['odata']
+          )
+        )
+      );
+    }
+
+    // Handle full-text search through the configured search provider
+    const search: FilterNode[] =
+      options.search && options.searchFields && options.searchFields.length > 0
+        ? [FilterAst.search(options.search, options.searchFields)]
+        : [];
+
+    return FilterAst.and(
+      ...conditions,
+      ...groups.flatMap(group =>
+        group.kind === 'group' && group.operator === 'and' ? group.children : [group]
+      ),
+      ...search
+    );
+  }
+
+  /**
+   * Build the search condition for `search`/`searchFields`, or null when there is nothing to match.
+   * In strict mode, search fields without a schema entry are rejected.
+   */
+  public buildSearchWhere(options: FilterOptions): any {
+    if (!options.search || !options.searchFields || options.searchFields.length === 0) {
+      return null;
+    }
+
+    const disallowed = this.processor.getDisallowedFields(options.searchFields);
+    if (disallowed.length > 0) {
+      throw new ValidationError(
+        `Fields not allowed for searching: ${disallowed.join(', ')}`,
+        'FIELD_NOT_ALLOWED',
+        'searchFields',
+        disallowed,
+        undefined,
+        this.requestId
+      );
+    }
+
+    return this.compileSearch(FilterAst.search(options.search, options.searchFields));
+  }
+
+  private compileSearch(node: SearchNode): any {
+    const query = new SearchQueryParser().parse(node.query);
+    if (SearchQueryParser.isEmpty(query)) {
+      return null;
+    }
+
+    return this.searchProvider.buildWhere(query, node.fields, this.searchContext);
+  }
+
+  /**
+   * Set the provider used for `search`/`searchFields`
+   */
+  public setSearchProvider(provider: SearchProvider): FilterBuilder {
+    this.searchProvider = provider;
+    return this;
+  }
+
+  /**
+   * Get the search provider
+   */
+  public getSearchProvider(): SearchProvider {
+    return this.searchProvider;
+  }
+
+  /**
+   * Set the model, Sequelize instance and dialect search providers build against
+   */
+  public setSearchContext(context: SearchContext): FilterBuilder {
+    this.searchContext = context;
+    return this;
+  }
+
+  /**
+   * Get the search context
+   */
+  public getSearchContext(): SearchContext {
+    return this.searchContext;
+  }
+
+  /**
+   * Parse an RSQL/FIQL expression and return Sequelize where options. Parse errors are
+   * reported in `errors`, as with `FilterProcessor.processRsql`.
+   */
+  public processRsql(expression: string): FilterResult {
+    let group: FilterGroup;
+    try {
+      group = new RsqlParser(this.processor.getSchema(), this.requestId).parse(expression);
+    } catch (error) {
+      return {
+        where: {},
+        errors: [error instanceof Error ? error.message : 'Unknown RSQL error'],
+        warnings: [],
+      };
+    }
+
+    return this.compile(FilterAst.fromFilters(group));
+  }
+
+  /**
+   * Serialize the current filters as an RSQL expression
+   */
+  public toRsql(): string {
+    const filters = FilterAst.toFilters(this.toAst());
+    if (!filters) {
+      throw new ValidationError(
+        'Filters containing search or non-negatable NOT groups cannot be expressed in RSQL',
+        'RSQL_UNSUPPORTED_OPERATOR',
+        undefined,
+        undefined,
+        undefined,
+        this.requestId
+      );
+    }
+    return new RsqlSerializer().serialize(filters);
+  }
+
+  /**
+   * Translate a MongoDB-style filter document and return Sequelize where options
+   */
+  public processMongo(document: Record<string, any>): FilterResult {
+    const group = new MongoFilterTranslator(
+      this.processor.getSchema(),
+      {},
+      this.requestId
+    ).translate(document);
+    return this.compile(FilterAst.fromFilters(group));
+  }
+
+  /**
+   * Parse bracket-syntax query string filters and return Sequelize where options
+   */
+  public processQueryString(
+    query: string | Record<string, any>,
+    rootParam: string = 'filter'
+  ): FilterResult {
+    const group = new QueryStringFilterParser({ rootParam }, this.requestId).parse(query);
+    return this.compile(FilterAst.fromFilters(group));
+  }
+
+  /**
+   * Serialize the filters into the versioned format described in `QuerySerializer`
+   */
+  public toJSON(): SerializedFilters {
+    return QuerySerializer.wrap({
+      filters: this.entries.map(({ connective, node }) =>
+        connective === 'and' && node.kind === 'comparison'
+          ? FilterAst.toCondition(node)
+          : { connective, node }
+      ),
+    });
+  }
+
+  /**
+   * Create a builder from `toJSON()` output or its JSON string
+   */
+  public static fromJSON(
+    serialized: SerializedFilters | string,
+    requestId?: string
+  ): FilterBuilder {
+    const { filters } = QuerySerializer.unwrap(serialized, undefined, requestId);
+    if (!Array.isArray(filters)) {
+      throw new ValidationError(
+        'Serialized filters must contain a "filters" array',
+        'INVALID_SERIALIZED_QUERY',
+        'filters',
+        filters,
+        undefined,
+        requestId
+      );
+    }
+    const builder = new FilterBuilder(requestId);
+    filters.forEach((filter, index) => {
+      const isNode = FilterAst.isNode(filter?.node);
+      if (filter && typeof filter === 'object') {
+        FilterBuilder.assertPlainValues(
+          isNode ? filter.node : FilterAst.fromFilters(filter),
+          `filters[${index}]`,
+          requestId
+        );
       }
+      if (isNode) {
+        builder.addNode(filter.node, filter.connective === 'or' ? 'or' : 'and');
+      } else {
+        builder.addFilter(filter);
+      }
+    });
+    return builder;
+  }
+
+  /**
+   * Reject condition values that are not plain data (e.g. models or operator objects)
+   */
+  private static assertPlainValues(node: FilterNode, path: string, requestId?: string): void {
+    FilterAst.visit(node, {
+      comparison: comparison => {
+        if (!QuerySerializer.isPlainData(comparison.value)) {
+          throw new ValidationError(
+            `Serialized filter value for "${comparison.field}" must be plain data`,
+            'INVALID_SERIALIZED_QUERY',
+            path,
+            comparison.value,
+            undefined,
+            requestId
+          );
+        }
+      },
     });
+  }
 
-    return this.processor.process(conditions);
+  /**
+   * Serialize the filters into a `filters=` query-string parameter
+   */
+  public toQueryString(param: string = 'filters'): string {
+    return new URLSearchParams({ [param]: JSON.stringify(this.toJSON()) }).toString();
+  }
+
+  /**
+   * Create a builder from a query string (or parsed query object) written by `toQueryString()`
+   */
+  public static fromQueryString(
+    query: string | Record<string, any>,
+    param: string = 'filters',
+    requestId?: string
+  ): FilterBuilder {
+    const value =
+      typeof query === 'string'
+        ? new URLSearchParams(query.replace(/^[^?]*\?/, '')).get(param)
+        : query[param];
+    if (typeof value !== 'string') {
+      throw new ValidationError(
+        `Query parameter "${param}" with serialized filters is missing`,
+        'INVALID_SERIALIZED_QUERY',
+        param,
+        value,
+        undefined,
+        requestId
+      );
+    }
+    return FilterBuilder.fromJSON(value, requestId);
   }
 
   /**
@@ -350,6 +737,20 @@ export class FilterBuilder {
         this.requestId
       );
     }
+
+    if (
+      this.processor.isStrict() &&
+      !ValidationUtils.getFilterFieldSchema(this.processor.getSchema(), condition.field)
+    ) {
+      throw new ValidationError(
+        `Filter field "${condition.field}" is not allowed`,
+        'FIELD_NOT_ALLOWED',
+        'field',
+        condition.field,
+        { condition },
+        this.requestId
+      );
+    }
   }
 
   /**
@@ -377,33 +778,43 @@ export class FilterBuilder {
         this.requestId
       );
     }
-  }
 
-  /**
-   * Flatten a filter group into individual conditions
-   */
-  private flattenFilterGroup(group: FilterGroup): void {
     group.conditions.forEach(condition => {
-      if ('operator' in condition && 'conditions' in condition) {
-        this.flattenFilterGroup(condition as FilterGroup);
+      if ('conditions' in condition) {
+        this.validateFilterGroup(condition);
       } else {
-        this.addFilter(condition as FilterCondition);
+        this.validateCondition(condition);
       }
     });
   }
 
   /**
-   * Get all filters
+   * Run a callback against a nested builder sharing this builder's processor
+   */
+  private buildNested(callback: (builder: FilterBuilder) => void): FilterNode | null {
+    const nested = new FilterBuilder(this.requestId).setProcessor(this.processor);
+    callback(nested);
+    return nested.hasFilters() ? nested.toAst() : null;
+  }
+
+  /**
+   * Get all filter conditions, including those inside groups
    */
   public getFilters(): FilterCondition[] {
-    return [...this.filters];
+    const conditions: FilterCondition[] = [];
+    this.entries.forEach(({ node }) =>
+      FilterAst.visit(node, {
+        comparison: comparison => conditions.push(FilterAst.toCondition(comparison)),
+      })
+    );
+    return conditions;
   }
 
   /**
    * Clear all filters
    */
   public clear(): FilterBuilder {
-    this.filters = [];
+    this.entries = [];
     return this;
   }
 
@@ -411,28 +822,44 @@ export class FilterBuilder {
    * Get filter count
    */
   public getFilterCount(): number {
-    return this.filters.length;
+    return this.getFilters().length;
   }
 
   /**
    * Check if filters exist
    */
   public hasFilters(): boolean {
-    return this.filters.length > 0;
+    return this.entries.length > 0;
   }
 
   /**
    * Get filters by field
    */
   public getFiltersByField(field: string): FilterCondition[] {
-    return this.filters.filter(filter => filter.field === field);
+    return this.getFilters().filter(filter => filter.field === field);
   }
 
   /**
-   * Remove filters by field
+   * Remove filters by field, including those inside groups
    */
   public removeFiltersByField(field: string): FilterBuilder {
-    this.filters = this.filters.filter(filter => filter.field !== field);
+    const entries: FilterEntry[] = [];
+    let startsOrRun = false;
+
+    this.entries.forEach(entry => {
+      const node = FilterAst.transform(entry.node, {
+        comparison: comparison => (comparison.field === field ? null : undefined),
+      });
+      if (!node) {
+        // Keep the OR boundary of a removed term so the next term does not join the previous run
+        startsOrRun = startsOrRun || entry.connective === 'or';
+        return;
+      }
+      entries.push({ connective: startsOrRun ? 'or' : entry.connective, node });
+      startsOrRun = false;
+    });
+
+    this.entries = entries;
     return this;
   }
 
@@ -470,8 +897,11 @@ export class FilterBuilder {
    */
   public clone(): FilterBuilder {
     const cloned = new FilterBuilder(this.requestId);
-    cloned.filters = [...this.filters];
+    cloned.entries = [...this.entries];
     cloned.processor = this.processor;
+    cloned.searchProvider = this.searchProvider;
+    cloned.searchContext = this.searchContext;
+    cloned.transforms = [...this.transforms];
     return cloned;
   }
 }
@@ -88,6 +88,89 @@ export class JoinBuilder {
     return this.addJoin({ ...join, include: nestedInclude });
   }
 
+  /**
+   * Build the include array with every association on the given dotted paths
+   * (e.g. `author.profile`) included. Missing associations are added as filter-only
+   * includes: required, with no attributes. The builder's own joins are left unchanged.
+   */
+  public buildWithAssociationPaths(paths: string[]): Includeable[] {
+    const joins = [...this.joins];
+    paths.forEach(path => this.addAssociationPath(joins, path));
+    return this.buildInclude(joins);
+  }
+
+  private addAssociationPath(joins: JoinOptions[], path: string): void {
+    const segments = path.split('.');
+    let model: any = this.model;
+    let level: any[] = joins;
+
+    segments.forEach((segment, index) => {
+      const association = this.resolveAssociation(model, segment, segments.slice(0, index));
+      const position = level.findIndex(candidate =>
+        this.matchesAssociation(candidate, association)
+      );
+
+      // Copy entries on the path so nested includes never touch the builder's joins
+      const entry =
+        position === -1
+          ? { model: association.target, as: association.as, required: true, attributes: [] }
+          : { ...level[position] };
+      if (position === -1) {
+        if (level === joins) {
+          this.validateJoin(entry);
+        }
+        level.push(entry);
+      } else {
+        level[position] = entry;
+      }
+
+      if (index < segments.length - 1) {
+        entry.include = [...(entry.include || [])];
+        level = entry.include;
+      }
+      model = association.target;
+    });
+  }
+
+  /**
+   * Look up an association by alias, listing the valid ones when it does not exist
+   */
+  private resolveAssociation(model: any, name: string, parents: string[]): any {
+    const associations = model?.associations || {};
+    const association = Object.prototype.hasOwnProperty.call(associations, name)
+      ? associations[name]
+      : undefined;
+
+    if (!association) {
+      const validAssociations = Object.keys(associations);
+      const path = [...parents, name].join('.');
+      throw new QueryError(
+        `Unknown association "${name}" in path "${path}" on model "${model?.name}". ` +
+          `Valid associations: ${validAssociations.length > 0 ? validAssociations.join(', ') : 'none'}`,
+        'INVALID_ASSOCIATION_PATH',
+        { path, association: name, model: model?.name, validAssociations },
+        this.requestId
+      );
+    }
+
+    return association;
+  }
+
+  /**
+   * Check whether a join or include entry already covers an association
+   */
+  private matchesAssociation(entry: any, association: any): boolean {
+    if (entry.as) {
+      return entry.as === association.as;
+    }
+    const model = entry.model;
+    return (
+      model === association.target ||
+      model === association.target.name ||
+      model?.name === association.target.name
+    );
+  }
+
   /**
    * Build the include array for Sequelize
    */
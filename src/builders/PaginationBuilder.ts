@@ -1,9 +1,23 @@
-import { PaginationOptions, PaginationResult, PaginationConfig } from '../types/PaginationTypes';
+import { Op } from 'sequelize';
+import {
+  PaginationOptions,
+  PaginationResult,
+  PaginationConfig,
+  CursorPaginationOptions,
+  CursorPaginationResult,
+  CursorPaginationState,
+  CursorSortKey,
+  CountInfo,
+  Connection,
+  ConnectionArgs,
+} from '../types/PaginationTypes';
 import { PaginationError } from '../errors/PaginationError';
+import { CursorCodec } from '../utils/CursorCodec';
 // import { ValidationUtils } from '../utils/ValidationUtils';
 
 export class PaginationBuilder {
   private config: PaginationConfig;
+  private cursorCodec: CursorCodec;
 
   constructor(config: Partial<PaginationConfig> = {}) {
     this.config = {
@@ -11,7 +25,11 @@ export class PaginationBuilder {
       maxPageSize: config.maxPageSize || 100,
       enableOffset: config.enableOffset !== false,
       enableCursor: config.enableCursor || false,
+      ...(config.cursorSecret && { cursorSecret: config.cursorSecret }),
+      ...(config.cursorTTL && { cursorTTL: config.cursorTTL }),
+      ...(config.allowUnsignedCursors && { allowUnsignedCursors: true }),
     };
+    this.cursorCodec = this.createCursorCodec();
   }
 
   /**
@@ -118,20 +136,329 @@ export class PaginationBuilder {
   /**
    * Build pagination result
    */
-  public buildResult(data: any[], total: number, page: number, pageSize: number): PaginationResult {
+  public buildResult(
+    data: any[],
+    total: number,
+    page: number,
+    pageSize: number,
+    countInfo?: CountInfo
+  ): PaginationResult {
     const totalPages = this.calculateTotalPages(total, pageSize);
 
-    return {
+    const result: PaginationResult = {
       data,
       pagination: {
         page,
         pageSize,
         total,
         totalPages,
-        hasNext: page < totalPages,
+        hasNext: countInfo?.hasNext ?? page < totalPages,
         hasPrev: page > 1,
       },
     };
+
+    if (countInfo) {
+      result.pagination.countStrategy = countInfo.strategy;
+      result.pagination.totalIsExact = countInfo.exact;
+    }
+
+    return result;
+  }
+
+  /**
+   * Process cursor pagination options and return the decoded cursor state
+   */
+  public processCursor(
+    options: CursorPaginationOptions,
+    queryHash?: string,
+    requestId?: string
+  ): CursorPaginationState {
+    if (!this.config.enableCursor) {
+      throw new PaginationError(
+        'Cursor pagination is disabled',
+        'CURSOR_PAGINATION_DISABLED',
+        undefined,
+        options.limit,
+        undefined,
+        undefined,
+        requestId
+      );
+    }
+
+    const validation = this.validateCursor(options);
+    if (!validation.isValid) {
+      throw new PaginationError(
+        `Invalid cursor pagination options: ${validation.errors.join(', ')}`,
+        'INVALID_PAGINATION_OPTIONS',
+        undefined,
+        options.limit,
+        undefined,
+        undefined,
+        requestId
+      );
+    }
+
+    return {
+      cursor: options.cursor ? this.decodeCursor(options.cursor, queryHash, requestId) : null,
+      limit: options.limit || this.config.defaultPageSize,
+      direction: options.direction || 'next',
+    };
+  }
+
+  /**
+   * Validate cursor pagination options
+   */
+  public validateCursor(options: CursorPaginationOptions): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (options.limit !== undefined) {
+      if (!Number.isInteger(options.limit) || options.limit < 1) {
+        errors.push('Limit must be a positive integer');
+      } else if (options.limit > this.config.maxPageSize) {
+        errors.push(`Limit cannot exceed ${this.config.maxPageSize}`);
+      }
+    }
+
+    if (options.direction !== undefined && !['next', 'prev'].includes(options.direction)) {
+      errors.push('Direction must be "next" or "prev"');
+    }
+
+    if (options.cursor !== undefined && typeof options.cursor !== 'string') {
+      errors.push('Cursor must be a string');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Encode sort key values into an opaque cursor token
+   */
+  public encodeCursor(values: Record<string, any>, queryHash?: string): string {
+    return this.cursorCodec.encode(values, queryHash);
+  }
+
+  /**
+   * Decode and verify a cursor token into sort key values
+   */
+  public decodeCursor(cursor: string, queryHash?: string, requestId?: string): Record<string, any> {
+    return this.cursorCodec.decode(cursor, queryHash, requestId);
+  }
+
+  /**
+   * Resolve the keys used for keyset pagination, appending the primary key as tie-breaker
+   */
+  public resolveCursorKeys(sorts: CursorSortKey[], primaryKey: string): CursorSortKey[] {
+    const keys = sorts.filter(sort => sort.column !== primaryKey);
+    const tieBreaker = sorts.find(sort => sort.column === primaryKey);
+    const lastKey = keys[keys.length - 1];
+
+    keys.push({
+      column: primaryKey,
+      order: tieBreaker?.order || lastKey?.order || 'ASC',
+    });
+
+    return keys;
+  }
+
+  /**
+   * Build the seek condition that selects rows after (or before) the cursor
+   *
+   * For keys (a, b, pk) this produces
+   * `a > :a OR (a = :a AND b > :b) OR (a = :a AND b = :b AND pk > :pk)`,
+   * with the comparison flipped per key for DESC order and for the "prev" direction.
+   * Cursor columns are expected to be non-nullable.
+   */
+  public buildCursorWhere(
+    keys: CursorSortKey[],
+    cursor: Record<string, any>,
+    direction: 'next' | 'prev' = 'next'
+  ): any {
+    const missing = keys.filter(key => !(key.column in cursor));
+    if (missing.length > 0) {
+      throw PaginationError.invalidCursor(
+        JSON.stringify(cursor),
+        `cursor is missing values for: ${missing.map(key => key.column).join(', ')}`
+      );
+    }
+
+    const branches = keys.map((key, index) => {
+      const ascending = (key.order === 'ASC') === (direction === 'next');
+      const branch: Record<string, any> = {};
+
+      keys.slice(0, index).forEach(previous => {
+        branch[previous.column] = { [Op.eq]: cursor[previous.column] };
+      });
+      branch[key.column] = { [ascending ? Op.gt : Op.lt]: cursor[key.column] };
+
+      return branch;
+    });
+
+    return branches.length === 1 ? branches[0] : { [Op.or]: branches };
+  }
+
+  /**
+   * Build the Sequelize order for a keyset page, reversed when paging backwards
+   */
+  public buildCursorOrder(keys: CursorSortKey[], direction: 'next' | 'prev' = 'next'): any[] {
+    return keys.map(key => {
+      if (direction === 'next') {
+        return [key.column, key.order];
+      }
+      return [key.column, key.order === 'ASC' ? 'DESC' : 'ASC'];
+    });
+  }
+
+  /**
+   * Extract the cursor values of a row for the given keys
+   */
+  public extractCursorValues(row: any, keys: CursorSortKey[]): Record<string, any> {
+    const values: Record<string, any> = {};
+    keys.forEach(key => {
+      values[key.column] = typeof row?.get === 'function' ? row.get(key.column) : row?.[key.column];
+    });
+    return values;
+  }
+
+  /**
+   * Build cursor pagination result from rows fetched with `limit + 1`
+   */
+  public buildCursorResult(
+    rows: any[],
+    keys: CursorSortKey[],
+    state: CursorPaginationState,
+    queryHash?: string
+  ): CursorPaginationResult {
+    const hasMore = rows.length > state.limit;
+    const data = rows.slice(0, state.limit);
+
+    if (state.direction === 'prev') {
+      data.reverse();
+    }
+
+    const hasNext = state.direction === 'next' ? hasMore : state.cursor !== null;
+    const hasPrev = state.direction === 'prev' ? hasMore : state.cursor !== null;
+    const first = data[0];
+    const last = data[data.length - 1];
+
+    const pagination: CursorPaginationResult['pagination'] = {
+      hasNext,
+      hasPrev,
+      limit: state.limit,
+    };
+
+    if (hasNext && last !== undefined) {
+      pagination.nextCursor = this.encodeCursor(this.extractCursorValues(last, keys), queryHash);
+    }
+
+    if (hasPrev && first !== undefined) {
+      pagination.prevCursor = this.encodeCursor(this.extractCursorValues(first, keys), queryHash);
+    }
+
+    return { data, pagination };
+  }
+
+  /**
+   * Translate Relay connection arguments into cursor pagination options
+   */
+  public processConnectionArgs(args: ConnectionArgs, requestId?: string): CursorPaginationOptions {
+    const validation = this.validateConnectionArgs(args);
+    if (!validation.isValid) {
+      throw new PaginationError(
+        `Invalid connection arguments: ${validation.errors.join(', ')}`,
+        'INVALID_CONNECTION_ARGS',
+        undefined,
+        args.first ?? args.last,
+        undefined,
+        { args, errors: validation.errors },
+        requestId
+      );
+    }
+
+    const backward = args.last !== undefined || args.before !== undefined;
+    const options: CursorPaginationOptions = {
+      limit: (backward ? args.last : args.first) ?? this.config.defaultPageSize,
+      direction: backward ? 'prev' : 'next',
+    };
+
+    const cursor = backward ? args.before : args.after;
+    if (cursor !== undefined) {
+      options.cursor = cursor;
+    }
+
+    return options;
+  }
+
+  /**
+   * Validate Relay connection arguments
+   */
+  public validateConnectionArgs(args: ConnectionArgs): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    (['first', 'last'] as const).forEach(name => {
+      const value = args[name];
+      if (value === undefined) return;
+      if (!Number.isInteger(value) || value < 1) {
+        errors.push(`"${name}" must be a positive integer`);
+      } else if (value > this.config.maxPageSize) {
+        errors.push(`"${name}" cannot exceed ${this.config.maxPageSize}`);
+      }
+    });
+
+    (['after', 'before'] as const).forEach(name => {
+      const value = args[name];
+      if (value !== undefined && typeof value !== 'string') {
+        errors.push(`"${name}" must be a cursor string`);
+      }
+    });
+
+    if (args.first !== undefined && args.last !== undefined) {
+      errors.push('"first" and "last" cannot be used together');
+    }
+
+    if (args.after !== undefined && args.before !== undefined) {
+      errors.push('"after" and "before" cannot be used together');
+    }
+
+    if (args.first !== undefined && args.before !== undefined) {
+      errors.push('"first" cannot be combined with "before"');
+    }
+
+    if (args.last !== undefined && args.after !== undefined) {
+      errors.push('"last" cannot be combined with "after"');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Build a Relay connection from a keyset page
+   */
+  public buildConnection(
+    data: any[],
+    pagination: CursorPaginationResult['pagination'],
+    keys: CursorSortKey[],
+    queryHash?: string
+  ): Connection {
+    const edges = data.map(node => ({
+      cursor: this.encodeCursor(this.extractCursorValues(node, keys), queryHash),
+      node,
+    }));
+
+    return {
+      edges,
+      pageInfo: {
+        hasNextPage: pagination.hasNext,
+        hasPreviousPage: pagination.hasPrev,
+        startCursor: edges[0]?.cursor ?? null,
+        endCursor: edges[edges.length - 1]?.cursor ?? null,
+      },
+    };
   }
 
   /**
@@ -206,6 +533,18 @@ export class PaginationBuilder {
    */
   public setConfig(config: Partial<PaginationConfig>): void {
     this.config = { ...this.config, ...config };
+    this.cursorCodec = this.createCursorCodec();
+  }
+
+  /**
+   * Create the cursor codec from the current configuration
+   */
+  private createCursorCodec(): CursorCodec {
+    return new CursorCodec({
+      ...(this.config.cursorSecret && { secret: this.config.cursorSecret }),
+      ...(this.config.cursorTTL && { ttl: this.config.cursorTTL }),
+      ...(this.config.allowUnsignedCursors && { allowUnsigned: true }),
+    });
   }
 
   /**
@@ -1,7 +1,8 @@
 // import { Order } from 'sequelize';
-import { SortCondition, SortResult } from '../types/SortTypes';
+import { SerializedSorts, SortCondition, SortResult } from '../types/SortTypes';
 import { SortProcessor } from '../utils/SortProcessor';
 import { ValidationUtils } from '../utils/ValidationUtils';
+import { QuerySerializer } from '../utils/QuerySerializer';
 import { ValidationError } from '../errors/ValidationError';
 
 export class SortBuilder {
@@ -131,23 +132,82 @@ export class SortBuilder {
   }
 
   /**
-   * Process sorts from options object
+   * Process sorts from an options object or a list of them
    */
   public processFromOptions(options: any): SortResult {
     const conditions: SortCondition[] = [];
 
-    if (options.column && options.order) {
-      conditions.push({
-        column: options.column,
-        order: options.order,
-        nulls: options.nulls,
-        caseSensitive: options.caseSensitive,
-      });
-    }
+    (Array.isArray(options) ? options : [options]).forEach(option => {
+      if (option.column && option.order) {
+        conditions.push({
+          column: option.column,
+          order: option.order,
+          nulls: option.nulls,
+          caseSensitive: option.caseSensitive,
+        });
+      }
+    });
 
     return this.processor.process(conditions);
   }
 
+  /**
+   * Serialize the sorts into the versioned format described in `QuerySerializer`
+   */
+  public toJSON(): SerializedSorts {
+    return QuerySerializer.wrap({ sorts: this.sorts });
+  }
+
+  /**
+   * Create a builder from `toJSON()` output or its JSON string
+   */
+  public static fromJSON(serialized: SerializedSorts | string, requestId?: string): SortBuilder {
+    const { sorts } = QuerySerializer.unwrap(serialized, undefined, requestId);
+    if (!Array.isArray(sorts)) {
+      throw new ValidationError(
+        'Serialized sorts must contain a "sorts" array',
+        'INVALID_SERIALIZED_QUERY',
+        'sorts',
+        sorts,
+        undefined,
+        requestId
+      );
+    }
+    return new SortBuilder(requestId).addSorts(sorts);
+  }
+
+  /**
+   * Serialize the sorts into a `sort=` query-string parameter
+   */
+  public toQueryString(param: string = 'sort'): string {
+    return new URLSearchParams({ [param]: JSON.stringify(this.toJSON()) }).toString();
+  }
+
+  /**
+   * Create a builder from a query string (or parsed query object) written by `toQueryString()`
+   */
+  public static fromQueryString(
+    query: string | Record<string, any>,
+    param: string = 'sort',
+    requestId?: string
+  ): SortBuilder {
+    const value =
+      typeof query === 'string'
+        ? new URLSearchParams(query.replace(/^[^?]*\?/, '')).get(param)
+        : query[param];
+    if (typeof value !== 'string') {
+      throw new ValidationError(
+        `Query parameter "${param}" with serialized sorts is missing`,
+        'INVALID_SERIALIZED_QUERY',
+        param,
+        value,
+        undefined,
+        requestId
+      );
+    }
+    return SortBuilder.fromJSON(value, requestId);
+  }
+
   /**
    * Validate a sort condition
    */
@@ -184,6 +244,17 @@ export class SortBuilder {
         this.requestId
       );
     }
+
+    if (this.processor.isStrict() && !this.processor.getSchema()[condition.column]?.allowed) {
+      throw new ValidationError(
+        `Sort column "${condition.column}" is not allowed`,
+        'SORT_COLUMN_NOT_ALLOWED',
+        'column',
+        condition.column,
+        { condition },
+        this.requestId
+      );
+    }
   }
 
   /**
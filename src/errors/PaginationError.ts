@@ -85,4 +85,44 @@ export class PaginationError extends Error {
       requestId
     );
   }
+
+  public static invalidCursor(cursor: string, reason: string, requestId?: string): PaginationError {
+    return new PaginationError(
+      `Invalid cursor: ${reason}`,
+      'INVALID_CURSOR',
+      undefined,
+      undefined,
+      undefined,
+      { cursor, reason },
+      requestId
+    );
+  }
+
+  public static cursorExpired(
+    cursor: string,
+    expiresAt: number,
+    requestId?: string
+  ): PaginationError {
+    return new PaginationError(
+      'Cursor has expired',
+      'CURSOR_EXPIRED',
+      undefined,
+      undefined,
+      undefined,
+      { cursor, expiresAt: new Date(expiresAt).toISOString() },
+      requestId
+    );
+  }
+
+  public static cursorQueryMismatch(cursor: string, requestId?: string): PaginationError {
+    return new PaginationError(
+      'Cursor was issued for a different filter or sort set',
+      'CURSOR_QUERY_MISMATCH',
+      undefined,
+      undefined,
+      undefined,
+      { cursor },
+      requestId
+    );
+  }
 }
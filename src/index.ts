@@ -9,14 +9,50 @@ export { JoinBuilder } from './builders/JoinBuilder';
 // Utilities
 export { ValidationUtils } from './utils/ValidationUtils';
 export { FilterProcessor } from './utils/FilterProcessor';
+export {
+  QueryStringFilterParser,
+  QueryStringFilterParserOptions,
+} from './utils/QueryStringFilterParser';
+export { RsqlParser, RSQL_OPERATORS } from './utils/RsqlParser';
+export { RsqlSerializer } from './utils/RsqlSerializer';
+export { ODataQueryParser, ODataQuery } from './utils/ODataQueryParser';
+export {
+  MongoFilterTranslator,
+  MongoFilterTranslatorOptions,
+  MONGO_OPERATORS,
+} from './utils/MongoFilterTranslator';
+export { SearchQueryParser } from './utils/SearchQueryParser';
+export {
+  PostgresSearchProvider,
+  MySqlSearchProvider,
+  SqliteFtsSearchProvider,
+  LikeSearchProvider,
+} from './utils/SearchProviders';
+export {
+  RelativeDateResolver,
+  RelativeDateResolverOptions,
+  DateRange,
+} from './utils/RelativeDateResolver';
+export { SchemaGenerator, SchemaGeneratorOptions, GeneratedSchemas } from './utils/SchemaGenerator';
 export { SortProcessor } from './utils/SortProcessor';
+export { QuerySerializer } from './utils/QuerySerializer';
+export { FilterAst } from './utils/FilterAst';
+export { FilterComplexityGuard } from './utils/FilterComplexityGuard';
+export { DialectCapabilities, DialectTranslation, LikeOptions } from './utils/DialectCapabilities';
 export { PerformanceMonitor } from './utils/PerformanceMonitor';
 export { CacheManager, MemoryCacheProvider } from './utils/CacheManager';
+export { CursorCodec, CursorCodecOptions } from './utils/CursorCodec';
+export { CountStrategies } from './utils/CountStrategies';
+export { PaginationResponseFormatter } from './utils/PaginationResponseFormatter';
 
 // Middleware
 export { ValidationMiddleware } from './middleware/ValidationMiddleware';
 export { LoggingMiddleware } from './middleware/LoggingMiddleware';
 export { CacheMiddleware } from './middleware/CacheMiddleware';
+export {
+  PaginationMiddleware,
+  PaginationMiddlewareOptions,
+} from './middleware/PaginationMiddleware';
 
 // Error classes
 export { QueryError } from './errors/QueryError';
@@ -32,6 +68,17 @@ export {
   FilterProcessor as FilterProcessorType,
   FilterSchema,
   FilterResult,
+  SerializedFilters,
+  FilterNode,
+  ComparisonNode,
+  GroupNode,
+  NotNode,
+  SearchNode,
+  FilterVisitor,
+  FilterVisitContext,
+  FilterTransformer,
+  FilterAstTransform,
+  FilterLimits,
 } from './types/FilterTypes';
 export {
   SortCondition,
@@ -39,13 +86,32 @@ export {
   SortProcessor as SortProcessorType,
   SortSchema,
   SortResult,
+  SerializedSorts,
 } from './types/SortTypes';
 export {
   PaginationConfig,
   CursorPaginationOptions,
   CursorPaginationResult,
+  CursorSortKey,
+  CursorPaginationState,
+  CountStrategy,
+  CountStrategyOption,
+  CountInfo,
+  ConnectionArgs,
+  Connection,
+  Edge,
+  PageInfo,
+  PaginationLinks,
+  PaginationResponseFormat,
+  PaginationResponseOptions,
   PaginationProcessor,
 } from './types/PaginationTypes';
+export {
+  ParsedSearchQuery,
+  SearchContext,
+  SearchProvider,
+  SearchQueryParserOptions,
+} from './types/SearchTypes';
 
 // Main factory function
 import { Model } from 'sequelize';
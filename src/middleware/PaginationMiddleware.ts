@@ -0,0 +1,99 @@
+// import { Request, Response, NextFunction } from 'express';
+import { PaginationResponseFormatter } from '../utils/PaginationResponseFormatter';
+import { PaginationResponseFormat, PaginationResponseOptions } from '../types/PaginationTypes';
+
+export interface PaginationMiddlewareOptions extends PaginationResponseOptions {
+  absoluteUrls?: boolean;
+  negotiateFormat?: boolean;
+  exposeHeaders?: boolean;
+}
+
+const CONTENT_TYPES: Record<PaginationResponseFormat, string> = {
+  plain: 'application/json',
+  jsonapi: 'application/vnd.api+json',
+  hal: 'application/hal+json',
+};
+
+export class PaginationMiddleware {
+  private formatter: PaginationResponseFormatter;
+  private options: PaginationMiddlewareOptions;
+
+  constructor(options: PaginationMiddlewareOptions = {}, formatter?: PaginationResponseFormatter) {
+    this.options = {
+      absoluteUrls: false,
+      negotiateFormat: true,
+      exposeHeaders: true,
+      ...options,
+    };
+    this.formatter = formatter || new PaginationResponseFormatter(options);
+  }
+
+  /**
+   * Attach `res.paginate(result, format?)`, which writes Link/X-Total-Count headers and the body
+   */
+  public paginate() {
+    return (req: any, res: any, next: any): void => {
+      res.paginate = (result: any, format?: PaginationResponseFormat) => {
+        const responseFormat = format || this.resolveFormat(req);
+        const { headers, body } = this.formatter.format(
+          this.getRequestUrl(req),
+          result,
+          responseFormat
+        );
+
+        Object.entries(headers).forEach(([name, value]) => res.setHeader(name, value));
+
+        if (this.options.exposeHeaders && Object.keys(headers).length > 0) {
+          res.setHeader('Access-Control-Expose-Headers', Object.keys(headers).join(', '));
+        }
+
+        res.setHeader('Content-Type', CONTENT_TYPES[responseFormat]);
+        return res.json(body);
+      };
+
+      next();
+    };
+  }
+
+  /**
+   * Pick the response format from the Accept header, falling back to the configured format
+   */
+  private resolveFormat(req: any): PaginationResponseFormat {
+    const fallback = this.options.format || 'plain';
+    if (!this.options.negotiateFormat) {
+      return fallback;
+    }
+
+    const accept = String(req.headers?.accept || '');
+    if (accept.includes(CONTENT_TYPES.jsonapi)) return 'jsonapi';
+    if (accept.includes(CONTENT_TYPES.hal)) return 'hal';
+    return fallback;
+  }
+
+  /**
+   * Get the request URL used as the base for pagination links
+   */
+  private getRequestUrl(req: any): string {
+    const path = req.originalUrl || req.url || '/';
+    if (!this.options.absoluteUrls) {
+      return path;
+    }
+
+    const host = req.get?.('host') || req.headers?.host;
+    return `${req.protocol || 'http'}://${host}${path}`;
+  }
+
+  /**
+   * Get the response formatter
+   */
+  public getFormatter(): PaginationResponseFormatter {
+    return this.formatter;
+  }
+
+  /**
+   * Get middleware options
+   */
+  public getOptions(): PaginationMiddlewareOptions {
+    return { ...this.options };
+  }
+}
@@ -1,3 +1,4 @@
 export { ValidationMiddleware } from './ValidationMiddleware';
 export { LoggingMiddleware } from './LoggingMiddleware';
 export { CacheMiddleware } from './CacheMiddleware';
+export { PaginationMiddleware } from './PaginationMiddleware';
@@ -22,13 +22,26 @@ export type FilterOperator =
   | 'endsWith'
   | 'contains'
   | 'regexp'
-  | 'notRegexp';
+  | 'notRegexp'
+  | 'jsonHasKey'
+  | 'jsonContains'
+  | 'jsonArrayContains'
+  | 'overlap'
+  | 'arrayContains'
+  | 'arrayContainedBy'
+  | 'arrayLength'
+  | 'within'
+  | 'notWithin'
+  | 'before'
+  | 'after';
 
 export interface FilterCondition {
   field: string;
   operator: FilterOperator;
   value: any;
   caseSensitive?: boolean;
+  rawPattern?: boolean;
+  timeZone?: string;
 }
 
 export interface FilterGroup {
@@ -36,6 +49,60 @@ export interface FilterGroup {
   conditions: (FilterCondition | FilterGroup)[];
 }
 
+export interface ComparisonNode {
+  kind: 'comparison';
+  field: string;
+  operator: FilterOperator;
+  value: any;
+  caseSensitive?: boolean;
+  rawPattern?: boolean;
+  timeZone?: string;
+}
+
+export interface GroupNode {
+  kind: 'group';
+  operator: 'and' | 'or';
+  children: FilterNode[];
+}
+
+export interface NotNode {
+  kind: 'not';
+  child: FilterNode;
+}
+
+export interface SearchNode {
+  kind: 'search';
+  query: string;
+  fields: string[];
+}
+
+export type FilterNode = ComparisonNode | GroupNode | NotNode | SearchNode;
+
+export interface FilterVisitContext {
+  parent: GroupNode | NotNode | null;
+  depth: number;
+}
+
+export interface FilterVisitor {
+  comparison?(node: ComparisonNode, context: FilterVisitContext): void;
+  group?(node: GroupNode, context: FilterVisitContext): void;
+  not?(node: NotNode, context: FilterVisitContext): void;
+  search?(node: SearchNode, context: FilterVisitContext): void;
+}
+
+/**
+ * Per-kind node rewrites; return a replacement node, `null` to remove the node,
+ * or `undefined` to keep it unchanged
+ */
+export interface FilterTransformer {
+  comparison?(node: ComparisonNode, context: FilterVisitContext): FilterNode | null | void;
+  group?(node: GroupNode, context: FilterVisitContext): FilterNode | null | void;
+  not?(node: NotNode, context: FilterVisitContext): FilterNode | null | void;
+  search?(node: SearchNode, context: FilterVisitContext): FilterNode | null | void;
+}
+
+export type FilterAstTransform = (root: FilterNode) => FilterNode | null;
+
 export interface FilterChain {
   filters: (FilterCondition | FilterGroup)[];
   operator?: 'and' | 'or';
@@ -50,6 +117,10 @@ export interface FilterSchema {
   [field: string]: {
     type: 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object';
     operators: FilterOperator[];
+    paths?: string[];
+    rawPatterns?: boolean;
+    maxPatternLength?: number;
+    allowLeadingWildcard?: boolean;
     validation?: {
       min?: number;
       max?: number;
@@ -60,12 +131,26 @@ export interface FilterSchema {
   };
 }
 
+export interface FilterLimits {
+  maxDepth?: number;
+  maxConditions?: number;
+  maxInListSize?: number;
+  maxRegexLength?: number;
+  allowedOperators?: FilterOperator[];
+  deniedOperators?: FilterOperator[];
+}
+
 export interface FilterOptions {
   search?: string;
   searchFields?: string[];
   [key: string]: any;
 }
 
+export interface SerializedFilters {
+  version: number;
+  filters: any[];
+}
+
 export interface FilterResult {
   where: any;
   errors: string[];
@@ -3,6 +3,9 @@ export interface PaginationConfig {
   maxPageSize: number;
   enableOffset: boolean;
   enableCursor: boolean;
+  cursorSecret?: string;
+  cursorTTL?: number;
+  allowUnsignedCursors?: boolean;
 }
 
 export interface PaginationOptions {
@@ -25,9 +28,26 @@ export interface PaginationResult {
     hasPrev: boolean;
     nextCursor?: string;
     prevCursor?: string;
+    countStrategy?: CountStrategy['type'];
+    totalIsExact?: boolean;
   };
 }
 
+export type CountStrategy =
+  | { type: 'exact' }
+  | { type: 'none' }
+  | { type: 'capped'; limit: number }
+  | { type: 'estimated' };
+
+export type CountStrategyOption = 'exact' | 'none' | 'estimated' | CountStrategy;
+
+export interface CountInfo {
+  total: number;
+  exact: boolean;
+  strategy: CountStrategy['type'];
+  hasNext?: boolean;
+}
+
 export interface CursorPaginationOptions {
   cursor?: string;
   limit?: number;
@@ -36,6 +56,17 @@ export interface CursorPaginationOptions {
   sortOrder?: 'ASC' | 'DESC';
 }
 
+export interface CursorSortKey {
+  column: string;
+  order: 'ASC' | 'DESC';
+}
+
+export interface CursorPaginationState {
+  cursor: Record<string, any> | null;
+  limit: number;
+  direction: 'next' | 'prev';
+}
+
 export interface CursorPaginationResult {
   data: any[];
   pagination: {
@@ -47,6 +78,52 @@ export interface CursorPaginationResult {
   };
 }
 
+export interface ConnectionArgs {
+  first?: number;
+  after?: string;
+  last?: number;
+  before?: string;
+}
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+export interface Edge<T = any> {
+  cursor: string;
+  node: T;
+}
+
+export interface Connection<T = any> {
+  edges: Edge<T>[];
+  pageInfo: PageInfo;
+}
+
+export type PaginationResponseFormat = 'plain' | 'jsonapi' | 'hal';
+
+export interface PaginationLinks {
+  self: string;
+  first?: string;
+  prev?: string;
+  next?: string;
+  last?: string;
+}
+
+export interface PaginationResponseOptions {
+  format?: PaginationResponseFormat;
+  pageParam?: string;
+  pageSizeParam?: string;
+  cursorParam?: string;
+  directionParam?: string;
+  resourceType?: string;
+  idField?: string;
+  includeTotalCountHeader?: boolean;
+  includeLinkHeader?: boolean;
+}
+
 export interface PaginationProcessor {
   process(options: PaginationOptions): {
     offset: number;
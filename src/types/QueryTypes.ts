@@ -1,4 +1,11 @@
 import { Model, WhereOptions, Order, Includeable } from 'sequelize';
+import {
+  CursorPaginationOptions,
+  CursorPaginationResult,
+  CountStrategy,
+  CountStrategyOption,
+} from './PaginationTypes';
+import { FilterLimits } from './FilterTypes';
 
 export interface QueryConfig {
   defaultPageSize: number;
@@ -13,6 +20,12 @@ export interface QueryConfig {
   logLevel: 'debug' | 'info' | 'warn' | 'error';
   cacheProvider: 'memory' | 'redis';
   validationSchema: string;
+  enableCursor?: boolean;
+  cursorSecret?: string;
+  cursorTTL?: number;
+  allowUnsignedCursors?: boolean;
+  countStrategy?: CountStrategyOption;
+  filterLimits?: FilterLimits;
 }
 
 export interface PaginationOptions {
@@ -31,6 +44,8 @@ export interface PaginationResult {
     totalPages: number;
     hasNext: boolean;
     hasPrev: boolean;
+    countStrategy?: CountStrategy['type'];
+    totalIsExact?: boolean;
   };
 }
 
@@ -52,6 +67,14 @@ export interface JoinOptions {
   include?: Includeable[];
 }
 
+export interface DeferredJoinOptions {
+  minOffset: number;
+}
+
+export interface IterateOptions {
+  batchSize?: number;
+}
+
 export interface QueryBuilderOptions {
   model: Model;
   config?: Partial<QueryConfig>;
@@ -59,6 +82,10 @@ export interface QueryBuilderOptions {
 
 export interface AdvancedQueryOptions {
   pagination?: PaginationOptions;
+  cursorPagination?: CursorPaginationOptions;
+  countStrategy?: CountStrategyOption;
+  parallelCount?: boolean;
+  totalCount?: boolean;
   filters?: FilterOptions;
   sorting?: SortOptions[];
   joins?: JoinOptions[];
@@ -70,10 +97,17 @@ export interface AdvancedQueryOptions {
   having?: WhereOptions;
   distinct?: boolean;
   subQuery?: boolean;
+  deferredJoin?: DeferredJoinOptions;
+  searchRank?: boolean;
   benchmark?: boolean;
   logging?: boolean;
 }
 
+export interface SerializedQuery {
+  version: number;
+  options: Record<string, any>;
+}
+
 export interface QueryResult<T = any> {
   data: T[];
   count?: number;
@@ -106,6 +140,12 @@ export interface PerformanceMetrics {
   cacheMisses: number;
 }
 
+export interface CursorQueryResult<T = any> {
+  data: T[];
+  pagination: CursorPaginationResult['pagination'];
+  performance?: QueryResult['performance'];
+}
+
 export type QueryMethod =
   | 'findAll'
   | 'findOne'
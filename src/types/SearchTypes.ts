@@ -0,0 +1,23 @@
+export interface ParsedSearchQuery {
+  raw: string;
+  terms: string[];
+  phrases: string[];
+  excluded: string[];
+}
+
+export interface SearchContext {
+  model?: any;
+  sequelize?: any;
+  dialect?: string | undefined;
+}
+
+export interface SearchProvider {
+  readonly name: string;
+  buildWhere(query: ParsedSearchQuery, fields: string[], context: SearchContext): any;
+  buildRank?(query: ParsedSearchQuery, fields: string[], context: SearchContext): any;
+}
+
+export interface SearchQueryParserOptions {
+  maxTerms?: number;
+  minTermLength?: number;
+}
@@ -34,6 +34,11 @@ export interface SortOptions {
   caseSensitive?: boolean;
 }
 
+export interface SerializedSorts {
+  version: number;
+  sorts: any[];
+}
+
 export interface SortResult {
   order: any;
   errors: string[];
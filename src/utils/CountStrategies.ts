@@ -0,0 +1,74 @@
+import { CountStrategy, CountStrategyOption } from '../types/PaginationTypes';
+import { ValidationError } from '../errors/ValidationError';
+
+export class CountStrategies {
+  /**
+   * Run a full COUNT(*) (default)
+   */
+  public static exact(): CountStrategy {
+    return { type: 'exact' };
+  }
+
+  /**
+   * Skip counting and detect the next page with a `limit + 1` probe
+   */
+  public static none(): CountStrategy {
+    return { type: 'none' };
+  }
+
+  /**
+   * Count at most `limit` rows and report "limit+" beyond that
+   */
+  public static capped(limit: number): CountStrategy {
+    return { type: 'capped', limit };
+  }
+
+  /**
+   * Use the query planner estimate (Postgres/MySQL), falling back to an exact count
+   */
+  public static estimated(): CountStrategy {
+    return { type: 'estimated' };
+  }
+
+  /**
+   * Normalize a count strategy option into a strategy object
+   */
+  public static normalize(
+    option: CountStrategyOption | undefined,
+    requestId?: string
+  ): CountStrategy {
+    if (option === undefined) {
+      return this.exact();
+    }
+
+    const strategy: any = typeof option === 'string' ? { type: option } : option;
+
+    switch (strategy?.type) {
+      case 'exact':
+      case 'none':
+      case 'estimated':
+        return { type: strategy.type };
+      case 'capped':
+        if (!Number.isInteger(strategy.limit) || strategy.limit < 1) {
+          throw new ValidationError(
+            'Capped count strategy requires a positive integer limit',
+            'INVALID_COUNT_STRATEGY',
+            'countStrategy.limit',
+            strategy.limit,
+            { strategy },
+            requestId
+          );
+        }
+        return { type: 'capped', limit: strategy.limit };
+      default:
+        throw new ValidationError(
+          'Count strategy must be "exact", "none", "capped" or "estimated"',
+          'INVALID_COUNT_STRATEGY',
+          'countStrategy',
+          option,
+          { strategy },
+          requestId
+        );
+    }
+  }
+}
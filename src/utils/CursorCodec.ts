@@ -0,0 +1,176 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { PaginationError } from '../errors/PaginationError';
+
+export interface CursorCodecOptions {
+  secret?: string;
+  ttl?: number;
+  allowUnsigned?: boolean;
+}
+
+/**
+ * Encodes keyset values into opaque cursor tokens and verifies them on the way back.
+ *
+ * Token format: `v1.<payload>.<signature>`, where `payload` is the base64url JSON
+ * `{ v: values, e?: expiresAt, q?: queryHash }` and `signature` is the base64url
+ * HMAC-SHA256 of `v1.<payload>`. The signature is empty when no secret is configured;
+ * unsigned cursors can be forged by clients, so the codec warns once per process unless
+ * `allowUnsigned` is set.
+ */
+export class CursorCodec {
+  public static readonly VERSION = 'v1';
+  private static warnedUnsigned = false;
+
+  private secret: string | undefined;
+  private ttl: number | undefined;
+  private allowUnsigned: boolean;
+
+  constructor(options: CursorCodecOptions = {}) {
+    this.secret = options.secret;
+    this.ttl = options.ttl;
+    this.allowUnsigned = options.allowUnsigned === true;
+  }
+
+  /**
+   * Encode cursor values into a token, optionally bound to a query hash
+   */
+  public encode(values: Record<string, any>, queryHash?: string): string {
+    this.warnIfUnsigned();
+    const payload: Record<string, any> = { v: values };
+
+    if (this.ttl !== undefined && this.ttl > 0) {
+      payload['e'] = Date.now() + this.ttl * 1000;
+    }
+
+    if (queryHash) {
+      payload['q'] = queryHash;
+    }
+
+    const body = `${CursorCodec.VERSION}.${this.toBase64Url(JSON.stringify(payload))}`;
+    return `${body}.${this.sign(body)}`;
+  }
+
+  /**
+   * Decode and verify a token, returning the cursor values
+   */
+  public decode(token: string, queryHash?: string, requestId?: string): Record<string, any> {
+    this.warnIfUnsigned();
+    const parts = typeof token === 'string' ? token.split('.') : [];
+    if (parts.length !== 3) {
+      throw PaginationError.invalidCursor(token, 'malformed cursor token', requestId);
+    }
+
+    const [version, encodedPayload, signature] = parts as [string, string, string];
+    if (version !== CursorCodec.VERSION) {
+      throw PaginationError.invalidCursor(
+        token,
+        `unsupported cursor version "${version}"`,
+        requestId
+      );
+    }
+
+    if (this.secret && !this.verify(`${version}.${encodedPayload}`, signature)) {
+      throw PaginationError.invalidCursor(token, 'cursor signature mismatch', requestId);
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    } catch {
+      throw PaginationError.invalidCursor(token, 'cursor payload is not valid JSON', requestId);
+    }
+
+    if (
+      !payload ||
+      typeof payload !== 'object' ||
+      !payload.v ||
+      typeof payload.v !== 'object' ||
+      Array.isArray(payload.v)
+    ) {
+      throw PaginationError.invalidCursor(token, 'cursor payload must be an object', requestId);
+    }
+
+    if (typeof payload.e === 'number' && Date.now() > payload.e) {
+      throw PaginationError.cursorExpired(token, payload.e, requestId);
+    }
+
+    // A cursor without a query hash cannot prove which query it was issued for
+    if (queryHash && payload.q !== queryHash) {
+      throw PaginationError.cursorQueryMismatch(token, requestId);
+    }
+
+    return payload.v;
+  }
+
+  /**
+   * Hash the filter/sort state a cursor is issued for
+   */
+  public static hashQuery(state: any): string {
+    return createHash('sha256')
+      .update(CursorCodec.stableStringify(state))
+      .digest('base64url')
+      .slice(0, 16);
+  }
+
+  /**
+   * Serialize a value with sorted object keys so equal states hash equally
+   */
+  private static stableStringify(value: any): string {
+    if (value === undefined) {
+      return 'null';
+    }
+
+    if (value === null || typeof value !== 'object' || value instanceof Date) {
+      return JSON.stringify(value);
+    }
+
+    if (Array.isArray(value)) {
+      return `[${value.map(item => CursorCodec.stableStringify(item)).join(',')}]`;
+    }
+
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${CursorCodec.stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  private warnIfUnsigned(): void {
+    if (this.secret || this.allowUnsigned || CursorCodec.warnedUnsigned) {
+      return;
+    }
+    CursorCodec.warnedUnsigned = true;
+    console.warn(
+      'CursorCodec: no cursor secret is configured, so cursor tokens are unsigned and can be ' +
+        'forged by clients. Set `cursorSecret`, or `allowUnsignedCursors: true` to silence this warning.'
+    );
+  }
+
+  private sign(data: string): string {
+    if (!this.secret) {
+      return '';
+    }
+    return createHmac('sha256', this.secret).update(data).digest('base64url');
+  }
+
+  private verify(data: string, signature: string): boolean {
+    const expected = Buffer.from(this.sign(data));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private toBase64Url(value: string): string {
+    return Buffer.from(value, 'utf8').toString('base64url');
+  }
+
+  public setSecret(secret: string | undefined): void {
+    this.secret = secret;
+  }
+
+  public setTTL(ttl: number | undefined): void {
+    this.ttl = ttl;
+  }
+
+  public isSigned(): boolean {
+    return !!this.secret;
+  }
+}
@@ -0,0 +1,199 @@
+import { Op, cast, col, fn, literal, where } from 'sequelize';
+
+export interface LikeOptions {
+  caseSensitive: boolean;
+  negated: boolean;
+}
+
+export interface DialectTranslation<T> {
+  result: T;
+  warnings: string[];
+}
+
+/**
+ * What a SQL dialect supports, and how portable filters and sorts are translated for it.
+ * Detected from the model's `sequelize.getDialect()`; an unknown dialect gets portable SQL.
+ */
+export class DialectCapabilities {
+  public readonly dialect: string | undefined;
+  public readonly supportsILike: boolean;
+  public readonly supportsNullsOrdering: boolean;
+  public readonly supportsArrays: boolean;
+  public readonly caseInsensitiveCollation: boolean;
+
+  private sequelize: any;
+  private modelName: string | undefined;
+
+  /**
+   * `modelName` qualifies bare column names in generated SQL so they stay unambiguous with includes
+   */
+  constructor(dialect?: string, sequelize?: any, modelName?: string) {
+    this.dialect = dialect;
+    this.sequelize = sequelize;
+    this.modelName = modelName;
+    this.supportsILike = dialect === 'postgres';
+    this.supportsNullsOrdering = ['postgres', 'sqlite', 'oracle', 'snowflake', 'db2'].includes(
+      dialect as string
+    );
+    this.supportsArrays = dialect === 'postgres';
+    // Default MySQL, MariaDB and SQL Server collations compare case-insensitively
+    this.caseInsensitiveCollation = ['mysql', 'mariadb', 'mssql'].includes(dialect as string);
+  }
+
+  /**
+   * Detect capabilities from a Sequelize model
+   */
+  public static fromModel(model: any): DialectCapabilities {
+    const sequelize = model?.sequelize;
+    return new DialectCapabilities(sequelize?.getDialect?.(), sequelize, model?.name);
+  }
+
+  /**
+   * Escape `%`, `_` and backslashes so a value matches literally inside a LIKE pattern.
+   * Patterns use a backslash as the escape character; `buildLike` translates it per dialect.
+   */
+  public static escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, '\\$&');
+  }
+
+  /**
+   * Check whether a pattern starts with an unescaped wildcard
+   */
+  public static hasLeadingWildcard(pattern: string): boolean {
+    return pattern.startsWith('%') || pattern.startsWith('_');
+  }
+
+  /**
+   * Build a LIKE condition with the requested case sensitivity
+   */
+  public buildLike(field: string, pattern: string, options: LikeOptions): DialectTranslation<any> {
+    const warnings: string[] = [];
+    const operator = options.negated ? Op.notLike : Op.like;
+
+    if (options.caseSensitive) {
+      if (this.caseInsensitiveCollation && this.dialect !== 'mssql') {
+        return {
+          result: where(
+            cast(col(this.toColumn(field)), 'BINARY'),
+            operator,
+            this.toDialectPattern(pattern)
+          ),
+          warnings,
+        };
+      }
+      if (this.dialect === 'sqlite' || this.dialect === 'mssql') {
+        warnings.push(
+          `Case-sensitive LIKE is not available on ${this.dialect}; '${field}' is matched case-insensitively`
+        );
+      }
+      return { result: { [field]: { [operator]: this.toDialectPattern(pattern) } }, warnings };
+    }
+
+    if (this.supportsILike) {
+      const iLike = options.negated ? Op.notILike : Op.iLike;
+      return { result: { [field]: { [iLike]: this.toDialectPattern(pattern) } }, warnings };
+    }
+
+    if (this.caseInsensitiveCollation) {
+      return { result: { [field]: { [operator]: this.toDialectPattern(pattern) } }, warnings };
+    }
+
+    if (this.dialect === 'sqlite' && /[^\x00-\x7F]/.test(pattern)) {
+      warnings.push(
+        `SQLite only folds ASCII case; non-ASCII characters in '${field}' are matched case-sensitively`
+      );
+    }
+
+    return {
+      result: where(
+        fn('LOWER', col(this.toColumn(field))),
+        operator,
+        this.toDialectPattern(pattern.toLowerCase())
+      ),
+      warnings,
+    };
+  }
+
+  /**
+   * Build ORDER BY entries with NULLS FIRST/LAST, emulated with an IS NULL sort key when needed
+   */
+  public buildNullsOrder(
+    expression: any,
+    column: string,
+    order: 'ASC' | 'DESC',
+    nulls: 'first' | 'last'
+  ): DialectTranslation<any[]> {
+    if (this.supportsNullsOrdering || this.dialect === undefined) {
+      return { result: [[expression, `${order} NULLS ${nulls.toUpperCase()}`]], warnings: [] };
+    }
+
+    const nullsKey = nulls === 'first' ? 'DESC' : 'ASC';
+
+    if (this.dialect === 'mysql' || this.dialect === 'mariadb') {
+      return {
+        result: [
+          [fn('ISNULL', col(this.toColumn(column))), nullsKey],
+          [expression, order],
+        ],
+        warnings: [],
+      };
+    }
+
+    if (this.sequelize) {
+      const quoted = this.sequelize.getQueryInterface().quoteIdentifiers(this.toColumn(column));
+      return {
+        result: [
+          [literal(`CASE WHEN ${quoted} IS NULL THEN 1 ELSE 0 END`), nullsKey],
+          [expression, order],
+        ],
+        warnings: [],
+      };
+    }
+
+    return {
+      result: [[expression, order]],
+      warnings: [
+        `NULLS ${nulls.toUpperCase()} is not supported on ${this.dialect} and was ignored`,
+      ],
+    };
+  }
+
+  /**
+   * Translate a backslash-escaped pattern: Postgres and MySQL use that escape by default,
+   * SQL Server uses brackets and everything else needs an explicit ESCAPE clause
+   */
+  private toDialectPattern(pattern: string): any {
+    if (!pattern.includes('\\') && this.dialect !== 'mssql') {
+      return pattern;
+    }
+
+    switch (this.dialect) {
+      case 'postgres':
+      case 'mysql':
+      case 'mariadb':
+        return pattern;
+      case 'mssql':
+        return pattern.replace(/\\([\s\S])|\[/g, (_match, escaped?: string) =>
+          escaped === undefined
+            ? '[[]'
+            : ['%', '_', '['].includes(escaped)
+              ? `[${escaped}]`
+              : escaped
+        );
+      default:
+        return literal(`${this.quote(pattern)} ESCAPE ${this.quote('\\')}`);
+    }
+  }
+
+  private quote(value: string): string {
+    return this.sequelize ? this.sequelize.escape(value) : `'${value.replace(/'/g, "''")}'`;
+  }
+
+  /**
+   * Turn a field or `$association.column$` reference into a qualified column name
+   */
+  private toColumn(field: string): string {
+    const column = field.replace(/^\$|\$$/g, '');
+    return this.modelName && !column.includes('.') ? `${this.modelName}.${column}` : column;
+  }
+}
@@ -0,0 +1,228 @@
+import {
+  ComparisonNode,
+  FilterCondition,
+  FilterGroup,
+  FilterNode,
+  FilterOperator,
+  FilterTransformer,
+  FilterVisitContext,
+  FilterVisitor,
+  GroupNode,
+  NotNode,
+  SearchNode,
+} from '../types/FilterTypes';
+import { FilterProcessor } from './FilterProcessor';
+
+/**
+ * Builds, walks and rewrites filter ASTs.
+ *
+ * The AST is the form `FilterBuilder` compiles from: `comparison` leaves, `and`/`or`
+ * `group`s, `not` wrappers and full-text `search` leaves. Rewriting it before compilation
+ * lets middleware add predicates (tenant scoping), map public field names to columns, or
+ * drop fields a caller may not filter on.
+ */
+export class FilterAst {
+  /**
+   * Create a comparison leaf
+   */
+  public static comparison(
+    field: string,
+    operator: FilterOperator,
+    value: any,
+    options: Pick<ComparisonNode, 'caseSensitive' | 'rawPattern' | 'timeZone'> = {}
+  ): ComparisonNode {
+    return { kind: 'comparison', field, operator, value, ...options };
+  }
+
+  /**
+   * Create an AND group
+   */
+  public static and(...children: FilterNode[]): GroupNode {
+    return { kind: 'group', operator: 'and', children };
+  }
+
+  /**
+   * Create an OR group
+   */
+  public static or(...children: FilterNode[]): GroupNode {
+    return { kind: 'group', operator: 'or', children };
+  }
+
+  /**
+   * Negate a node
+   */
+  public static not(child: FilterNode): NotNode {
+    return { kind: 'not', child };
+  }
+
+  /**
+   * Create a full-text search leaf
+   */
+  public static search(query: string, fields: string[]): SearchNode {
+    return { kind: 'search', query, fields };
+  }
+
+  /**
+   * Convert conditions and groups into an AST. A condition array becomes an AND group.
+   */
+  public static fromFilters(
+    filters: FilterCondition | FilterGroup | FilterCondition[]
+  ): FilterNode {
+    if (Array.isArray(filters)) {
+      return FilterAst.and(...filters.map(filter => FilterAst.fromFilters(filter)));
+    }
+
+    if ('conditions' in filters) {
+      return {
+        kind: 'group',
+        operator: filters.operator,
+        children: filters.conditions.map(condition => FilterAst.fromFilters(condition)),
+      };
+    }
+
+    const { field, operator, value, ...options } = filters;
+    return FilterAst.comparison(field, operator, value, options);
+  }
+
+  /**
+   * Convert an AST back into conditions and groups. `not` nodes are pushed into their
+   * operands with `FilterProcessor.negate`; returns null when the tree has a search node
+   * or a negation without a counterpart operator.
+   */
+  public static toFilters(node: FilterNode): FilterCondition | FilterGroup | null {
+    switch (node.kind) {
+      case 'comparison':
+        return FilterAst.toCondition(node);
+      case 'group': {
+        const conditions = node.children.map(child => FilterAst.toFilters(child));
+        if (conditions.some(condition => condition === null)) {
+          return null;
+        }
+        return {
+          operator: node.operator,
+          conditions: conditions as (FilterCondition | FilterGroup)[],
+        };
+      }
+      case 'not': {
+        const child = FilterAst.toFilters(node.child);
+        return child ? FilterProcessor.negate(child) : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Convert a comparison leaf into a filter condition
+   */
+  public static toCondition(node: ComparisonNode): FilterCondition {
+    const { kind: _kind, ...condition } = node;
+    return condition;
+  }
+
+  /**
+   * Check whether a value is an AST node rather than a condition or group
+   */
+  public static isNode(value: any): value is FilterNode {
+    return (
+      value !== null &&
+      typeof value === 'object' &&
+      ['comparison', 'group', 'not', 'search'].includes(value.kind)
+    );
+  }
+
+  /**
+   * Walk the tree depth-first, calling the visitor for each node before its children
+   */
+  public static visit(node: FilterNode, visitor: FilterVisitor): void {
+    FilterAst.walk(node, visitor, { parent: null, depth: 0 });
+  }
+
+  /**
+   * Rewrite the tree bottom-up. Children are transformed before their parent, and the
+   * parent callback receives the rebuilt node. Groups left without children and `not`
+   * nodes whose child was removed are removed as well; `null` means the whole tree was.
+   */
+  public static transform(node: FilterNode, transformer: FilterTransformer): FilterNode | null {
+    return FilterAst.rewrite(node, transformer, { parent: null, depth: 0 });
+  }
+
+  /**
+   * List the distinct fields referenced by comparison and search nodes
+   */
+  public static fields(node: FilterNode): string[] {
+    const fields = new Set<string>();
+    FilterAst.visit(node, {
+      comparison: comparison => fields.add(comparison.field),
+      search: search => search.fields.forEach(field => fields.add(field)),
+    });
+    return [...fields];
+  }
+
+  private static walk(node: FilterNode, visitor: FilterVisitor, context: FilterVisitContext): void {
+    const childContext = { depth: context.depth + 1 };
+
+    switch (node.kind) {
+      case 'comparison':
+        visitor.comparison?.(node, context);
+        return;
+      case 'search':
+        visitor.search?.(node, context);
+        return;
+      case 'not':
+        visitor.not?.(node, context);
+        FilterAst.walk(node.child, visitor, { ...childContext, parent: node });
+        return;
+      case 'group':
+        visitor.group?.(node, context);
+        node.children.forEach(child =>
+          FilterAst.walk(child, visitor, { ...childContext, parent: node })
+        );
+        return;
+    }
+  }
+
+  private static rewrite(
+    node: FilterNode,
+    transformer: FilterTransformer,
+    context: FilterVisitContext
+  ): FilterNode | null {
+    const childContext = { depth: context.depth + 1 };
+    let result: FilterNode | null | void;
+    let current: FilterNode = node;
+
+    switch (node.kind) {
+      case 'comparison':
+        result = transformer.comparison?.(node, context);
+        break;
+      case 'search':
+        result = transformer.search?.(node, context);
+        break;
+      case 'not': {
+        const child = FilterAst.rewrite(node.child, transformer, { ...childContext, parent: node });
+        if (!child) {
+          return null;
+        }
+        current = child === node.child ? node : { ...node, child };
+        result = transformer.not?.(current as NotNode, context);
+        break;
+      }
+      case 'group': {
+        const children = node.children
+          .map(child => FilterAst.rewrite(child, transformer, { ...childContext, parent: node }))
+          .filter((child): child is FilterNode => child !== null);
+        if (children.length === 0) {
+          return null;
+        }
+        const unchanged =
+          children.length === node.children.length &&
+          children.every((child, index) => child === node.children[index]);
+        current = unchanged ? node : { ...node, children };
+        result = transformer.group?.(current as GroupNode, context);
+        break;
+      }
+    }
+
+    return result === undefined ? current : (result as FilterNode | null);
+  }
+}
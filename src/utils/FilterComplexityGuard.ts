@@ -0,0 +1,169 @@
+import {
+  FilterCondition,
+  FilterGroup,
+  FilterLimits,
+  FilterNode,
+  FilterOperator,
+} from '../types/FilterTypes';
+import { ValidationError } from '../errors/ValidationError';
+
+type FilterInput = FilterCondition | FilterGroup | FilterCondition[] | FilterNode;
+
+// Operators whose value is a list, including comma-separated query-string lists
+const LIST_OPERATORS: FilterOperator[] = [
+  'in',
+  'notIn',
+  'between',
+  'notBetween',
+  'overlap',
+  'arrayContains',
+  'arrayContainedBy',
+];
+const REGEX_OPERATORS: FilterOperator[] = ['regexp', 'notRegexp'];
+
+/**
+ * Enforces `FilterLimits` on conditions, groups and filter ASTs before they are compiled,
+ * so a public endpoint cannot send arbitrarily deep, wide or expensive filters to the database.
+ *
+ * Depth counts nested `and` / `or` / `not` levels: a flat list of conditions has depth 1.
+ * Every violation throws a `ValidationError` with code `FILTER_TOO_COMPLEX`, whose
+ * `details.limit` names the limit that was hit and `details.configured` its setting.
+ */
+export class FilterComplexityGuard {
+  private limits: FilterLimits;
+  private requestId: string | undefined;
+
+  constructor(limits: FilterLimits = {}, requestId?: string) {
+    this.limits = limits;
+    this.requestId = requestId;
+  }
+
+  /**
+   * Check a filter tree against the limits
+   */
+  public check(filters: FilterInput): void {
+    if (Object.values(this.limits).every(limit => limit === undefined)) {
+      return;
+    }
+
+    this.walk(filters, 0, { conditions: 0 });
+  }
+
+  private walk(node: any, depth: number, counter: { conditions: number }): void {
+    const children = this.getChildren(node);
+
+    if (children) {
+      const { maxDepth } = this.limits;
+      if (maxDepth !== undefined && depth + 1 > maxDepth) {
+        throw this.violation(
+          'maxDepth',
+          `Filter nesting depth exceeds the limit of ${maxDepth}`,
+          depth + 1
+        );
+      }
+      children.forEach(child => this.walk(child, depth + 1, counter));
+      return;
+    }
+
+    counter.conditions++;
+    const { maxConditions } = this.limits;
+    if (maxConditions !== undefined && counter.conditions > maxConditions) {
+      throw this.violation(
+        'maxConditions',
+        `Filter has more than ${maxConditions} conditions`,
+        counter.conditions
+      );
+    }
+
+    if (node?.kind !== 'search') {
+      this.checkCondition(node as FilterCondition);
+    }
+  }
+
+  private getChildren(node: any): any[] | null {
+    if (Array.isArray(node)) {
+      return node;
+    }
+    if (node?.kind === 'group') {
+      return node.children;
+    }
+    if (node?.kind === 'not') {
+      return [node.child];
+    }
+    if (node && 'conditions' in node) {
+      return node.conditions;
+    }
+    return null;
+  }
+
+  private checkCondition(condition: FilterCondition): void {
+    const { field, operator, value } = condition;
+    const { allowedOperators, deniedOperators, maxInListSize, maxRegexLength } = this.limits;
+
+    if (allowedOperators && !allowedOperators.includes(operator)) {
+      throw this.violation(
+        'allowedOperators',
+        `Filter operator '${operator}' is not allowed`,
+        operator,
+        field
+      );
+    }
+    if (deniedOperators && deniedOperators.includes(operator)) {
+      throw this.violation(
+        'deniedOperators',
+        `Filter operator '${operator}' is not allowed`,
+        operator,
+        field
+      );
+    }
+
+    if (
+      maxInListSize !== undefined &&
+      (LIST_OPERATORS.includes(operator) || Array.isArray(value))
+    ) {
+      // Query-string lists are still comma-separated strings at this point
+      const size = Array.isArray(value)
+        ? value.length
+        : typeof value === 'string'
+          ? value.split(',').length
+          : 1;
+      if (size > maxInListSize) {
+        throw this.violation(
+          'maxInListSize',
+          `Value list for field '${field}' has ${size} values; the limit is ${maxInListSize}`,
+          size,
+          field
+        );
+      }
+    }
+
+    if (
+      maxRegexLength !== undefined &&
+      REGEX_OPERATORS.includes(operator) &&
+      String(value).length > maxRegexLength
+    ) {
+      throw this.violation(
+        'maxRegexLength',
+        `Regex pattern for field '${field}' exceeds ${maxRegexLength} characters`,
+        value,
+        field
+      );
+    }
+  }
+
+  private violation(
+    limit: keyof FilterLimits,
+    message: string,
+    value: any,
+    field?: string
+  ): ValidationError {
+    return new ValidationError(
+      message,
+      'FILTER_TOO_COMPLEX',
+      field,
+      value,
+      { limit, configured: this.limits[limit] },
+      this.requestId
+    );
+  }
+}
@@ -1,20 +1,183 @@
 import {
   FilterCondition,
   FilterGroup,
+  FilterLimits,
+  FilterNode,
   FilterOperator,
   FilterResult,
   FilterSchema,
+  SearchNode,
 } from '../types/FilterTypes';
+import { DialectCapabilities } from './DialectCapabilities';
+import { FilterComplexityGuard } from './FilterComplexityGuard';
+import { RelativeDateResolver } from './RelativeDateResolver';
+import { RsqlParser } from './RsqlParser';
+import { ValidationUtils } from './ValidationUtils';
 // import { ValidationError } from '../errors/ValidationError';
 
+const BOOLEAN_TOKENS = new Map<string, boolean>([
+  ['true', true],
+  ['false', false],
+  ['1', true],
+  ['0', false],
+]);
+
 export class FilterProcessor {
+  /**
+   * Comparison operators understood by processOperator
+   */
+  public static readonly comparisonOperators: FilterOperator[] = [
+    'eq',
+    'ne',
+    'gt',
+    'gte',
+    'lt',
+    'lte',
+    'like',
+    'notLike',
+    'iLike',
+    'notILike',
+    'in',
+    'notIn',
+    'between',
+    'notBetween',
+    'is',
+    'isNot',
+    'startsWith',
+    'endsWith',
+    'contains',
+    'regexp',
+    'notRegexp',
+    'jsonHasKey',
+    'jsonContains',
+    'jsonArrayContains',
+    'overlap',
+    'arrayContains',
+    'arrayContainedBy',
+    'arrayLength',
+    'within',
+    'notWithin',
+    'before',
+    'after',
+  ];
+
+  /**
+   * Operators on Postgres ARRAY columns
+   */
+  public static readonly arrayOperators: FilterOperator[] = [
+    'overlap',
+    'arrayContains',
+    'arrayContainedBy',
+    'arrayLength',
+  ];
+
+  /**
+   * Operators on JSON columns, compiled per dialect
+   */
+  public static readonly jsonOperators: FilterOperator[] = [
+    'jsonHasKey',
+    'jsonContains',
+    'jsonArrayContains',
+  ];
+
+  /**
+   * LIKE-based operators; only the like family takes raw patterns, and only when opted in
+   */
+  public static readonly patternOperators: FilterOperator[] = [
+    'like',
+    'notLike',
+    'iLike',
+    'notILike',
+    'startsWith',
+    'endsWith',
+    'contains',
+  ];
+
+  /**
+   * Operators whose value is a list, given either as an array or a comma-separated string
+   */
+  private static readonly listOperators: FilterOperator[] = [
+    'in',
+    'notIn',
+    'between',
+    'notBetween',
+    'overlap',
+    'arrayContains',
+    'arrayContainedBy',
+  ];
+
+  /**
+   * Operators paired with their logical negation
+   */
+  private static readonly negatedOperators: Partial<Record<FilterOperator, FilterOperator>> = {
+    eq: 'ne',
+    ne: 'eq',
+    gt: 'lte',
+    gte: 'lt',
+    lt: 'gte',
+    lte: 'gt',
+    like: 'notLike',
+    notLike: 'like',
+    iLike: 'notILike',
+    notILike: 'iLike',
+    in: 'notIn',
+    notIn: 'in',
+    between: 'notBetween',
+    notBetween: 'between',
+    is: 'isNot',
+    isNot: 'is',
+    regexp: 'notRegexp',
+    notRegexp: 'regexp',
+    within: 'notWithin',
+    notWithin: 'within',
+  };
+
   private schema: FilterSchema;
+  private capabilities: DialectCapabilities = new DialectCapabilities();
+  private dateResolver: RelativeDateResolver = new RelativeDateResolver();
+  private strict = false;
+  private limits: FilterLimits = {};
+
+  /**
+   * Negate a condition or group, applying De Morgan's laws to groups.
+   * Returns null when an operator has no negated counterpart.
+   */
+  public static negate(node: FilterCondition | FilterGroup): FilterCondition | FilterGroup | null {
+    if ('conditions' in node) {
+      const conditions = node.conditions.map(condition => FilterProcessor.negate(condition));
+      if (conditions.some(condition => condition === null)) {
+        return null;
+      }
+      return {
+        operator: node.operator === 'and' ? 'or' : 'and',
+        conditions: conditions as (FilterCondition | FilterGroup)[],
+      };
+    }
+
+    const literal = DialectCapabilities.escapeLike(String(node.value));
+    switch (node.operator) {
+      case 'contains':
+        return { field: node.field, operator: 'notILike', value: `%${literal}%`, rawPattern: true };
+      case 'startsWith':
+        return { field: node.field, operator: 'notILike', value: `${literal}%`, rawPattern: true };
+      case 'endsWith':
+        return { field: node.field, operator: 'notILike', value: `%${literal}`, rawPattern: true };
+    }
+
+    const negated = FilterProcessor.negatedOperators[node.operator];
+    return negated ? { ...node, operator: negated } : null;
+  }
 
   constructor(schema: FilterSchema = {}) {
     this.schema = schema;
   }
 
+  /**
+   * Process conditions or groups. Throws a `FILTER_TOO_COMPLEX` ValidationError when the
+   * filters exceed the configured limits.
+   */
   public process(filters: FilterCondition | FilterGroup | FilterCondition[]): FilterResult {
+    new FilterComplexityGuard(this.limits).check(filters);
     const errors: string[] = [];
     const warnings: string[] = [];
 
@@ -46,14 +209,57 @@ export class FilterProcessor {
     }
   }
 
+  /**
+   * Compile a filter AST. Search nodes are compiled by `compileSearch`, which returns a
+   * where fragment or null when the query matches everything. Limits apply as in `process`.
+   */
+  public processAst(node: FilterNode, compileSearch?: (node: SearchNode) => any): FilterResult {
+    new FilterComplexityGuard(this.limits).check(node);
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    try {
+      return {
+        where: this.processNode(node, errors, warnings, compileSearch),
+        errors,
+        warnings,
+      };
+    } catch (error) {
+      errors.push(
+        `Filter processing error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return {
+        where: {},
+        errors,
+        warnings,
+      };
+    }
+  }
+
+  /**
+   * Parse an RSQL/FIQL expression against the schema and process it
+   */
+  public processRsql(expression: string): FilterResult {
+    let group: FilterGroup;
+    try {
+      group = new RsqlParser(this.schema).parse(expression);
+    } catch (error) {
+      return {
+        where: {},
+        errors: [error instanceof Error ? error.message : 'Unknown RSQL error'],
+        warnings: [],
+      };
+    }
+
+    return this.process(group);
+  }
+
   private processFilterArray(
     filters: FilterCondition[],
     errors: string[],
-    _warnings: string[]
+    warnings: string[]
   ): any {
-    const conditions = filters.map(filter =>
-      this.processFilterCondition(filter, errors, _warnings)
-    );
+    const conditions = filters.map(filter => this.processFilterCondition(filter, errors, warnings));
     return { [Op.and]: conditions };
   }
 
@@ -69,10 +275,44 @@ export class FilterProcessor {
     return { [group.operator === 'and' ? Op.and : Op.or]: conditions };
   }
 
+  private processNode(
+    node: FilterNode,
+    errors: string[],
+    warnings: string[],
+    compileSearch?: (node: SearchNode) => any
+  ): any {
+    switch (node.kind) {
+      case 'group':
+        return {
+          [node.operator === 'and' ? Op.and : Op.or]: node.children.map(child =>
+            this.processNode(child, errors, warnings, compileSearch)
+          ),
+        };
+      case 'not':
+        return { [Op.not]: this.processNode(node.child, errors, warnings, compileSearch) };
+      case 'search': {
+        const disallowed = this.getDisallowedFields(node.fields);
+        if (disallowed.length > 0) {
+          errors.push(`Fields not allowed for searching: ${disallowed.join(', ')}`);
+          return {};
+        }
+        if (!compileSearch) {
+          errors.push(`No search provider to compile search on: ${node.fields.join(', ')}`);
+          return {};
+        }
+        return compileSearch(node) ?? {};
+      }
+      default: {
+        const { kind: _kind, ...condition } = node;
+        return this.processFilterCondition(condition, errors, warnings);
+      }
+    }
+  }
+
   private processFilterCondition(
     condition: FilterCondition,
     errors: string[],
-    _warnings: string[]
+    warnings: string[]
   ): any {
     // Validate the condition
     if (!this.validateCondition(condition)) {
@@ -81,14 +321,36 @@ export class FilterProcessor {
     }
 
     // Get field schema
-    const fieldSchema = this.schema[condition.field];
+    const fieldSchema = ValidationUtils.getFilterFieldSchema(this.schema, condition.field);
+    if (!fieldSchema && this.strict) {
+      errors.push(`Field '${condition.field}' is not allowed for filtering`);
+      return {};
+    }
     if (fieldSchema && !fieldSchema.operators.includes(condition.operator)) {
       errors.push(`Operator '${condition.operator}' not allowed for field '${condition.field}'`);
       return {};
     }
 
+    const jsonPathError = this.checkJsonPath(condition);
+    if (jsonPathError) {
+      errors.push(jsonPathError);
+      return {};
+    }
+
+    // Relative date ranges resolve before transforms, which expect concrete values
+    if (RelativeDateResolver.operators.includes(condition.operator)) {
+      return this.processDateOperator(condition, errors);
+    }
+
+    // Coerce query-string values to the schema type
+    const coerced = this.coerceValue(condition, fieldSchema);
+    if (coerced.errors.length > 0) {
+      errors.push(...coerced.errors);
+      return {};
+    }
+
     // Transform value if needed
-    let value = condition.value;
+    let value = coerced.value;
     if (fieldSchema?.transform) {
       try {
         value = fieldSchema.transform(value);
@@ -100,21 +362,39 @@ export class FilterProcessor {
       }
     }
 
+    if (FilterProcessor.arrayOperators.includes(condition.operator)) {
+      return this.processArrayOperator(
+        this.toColumnReference(condition.field),
+        condition.operator,
+        value
+      );
+    }
+
+    if (FilterProcessor.jsonOperators.includes(condition.operator)) {
+      return this.processJsonOperator(condition.field, condition.operator, value);
+    }
+
+    if (FilterProcessor.patternOperators.includes(condition.operator)) {
+      const pattern = this.toLikePattern(condition, value, fieldSchema);
+      const patternError = this.checkPattern(condition.field, pattern, fieldSchema);
+      if (patternError) {
+        errors.push(patternError);
+        return {};
+      }
+      return this.processPatternOperator(
+        this.toColumnReference(condition.field),
+        condition.operator,
+        pattern,
+        warnings,
+        condition.caseSensitive
+      );
+    }
+
     // Process the operator
-    return this.processOperator(
-      condition.field,
-      condition.operator,
-      value,
-      condition.caseSensitive
-    );
+    return this.processOperator(this.toColumnReference(condition.field), condition.operator, value);
   }
 
-  private processOperator(
-    field: string,
-    operator: FilterOperator,
-    value: any,
-    _caseSensitive?: boolean
-  ): any {
+  private processOperator(field: string, operator: FilterOperator, value: any): any {
     switch (operator) {
       case 'eq':
         return { [field]: value };
@@ -128,14 +408,6 @@ export class FilterProcessor {
         return { [field]: { [Op.lt]: value } };
       case 'lte':
         return { [field]: { [Op.lte]: value } };
-      case 'like':
-        return { [field]: { [Op.iLike]: value } };
-      case 'notLike':
-        return { [field]: { [Op.notLike]: value } };
-      case 'iLike':
-        return { [field]: { [Op.iLike]: value } };
-      case 'notILike':
-        return { [field]: { [Op.notILike]: value } };
       case 'in':
         return { [field]: { [Op.in]: Array.isArray(value) ? value : [value] } };
       case 'notIn':
@@ -156,12 +428,6 @@ export class FilterProcessor {
         return { [field]: { [Op.is]: value } };
       case 'isNot':
         return { [field]: { [Op.not]: value } };
-      case 'startsWith':
-        return { [field]: { [Op.iLike]: `${value}%` } };
-      case 'endsWith':
-        return { [field]: { [Op.iLike]: `%${value}` } };
-      case 'contains':
-        return { [field]: { [Op.iLike]: `%${value}%` } };
       case 'regexp':
         return { [field]: { [Op.regexp]: value } };
       case 'notRegexp':
@@ -171,6 +437,417 @@ export class FilterProcessor {
     }
   }
 
+  /**
+   * Coerce string values to the field's schema type: numbers, booleans, ISO dates, enum
+   * members, comma-separated lists and the `null` token. Non-string values are kept as-is.
+   */
+  private coerceValue(
+    condition: FilterCondition,
+    fieldSchema: FilterSchema[string] | undefined
+  ): { value: any; errors: string[] } {
+    const { field, operator, value } = condition;
+    const errors: string[] = [];
+
+    if (operator === 'arrayLength') {
+      return { value: this.coerceScalar(field, value, 'number', undefined, errors), errors };
+    }
+
+    if (
+      !fieldSchema ||
+      fieldSchema.type === 'object' ||
+      FilterProcessor.patternOperators.includes(operator)
+    ) {
+      return { value, errors };
+    }
+
+    if (FilterProcessor.listOperators.includes(operator)) {
+      const list = typeof value === 'string' ? value.split(',').map(item => item.trim()) : value;
+      if (!Array.isArray(list) || fieldSchema.type === 'array') {
+        return { value: list, errors };
+      }
+      const coerced = list.map(item =>
+        this.coerceScalar(field, item, fieldSchema.type, fieldSchema.validation?.enum, errors)
+      );
+      return { value: coerced, errors };
+    }
+
+    if (value === 'null') {
+      return { value: null, errors };
+    }
+
+    const type = operator === 'is' || operator === 'isNot' ? 'boolean' : fieldSchema.type;
+    return {
+      value: this.coerceScalar(field, value, type, fieldSchema.validation?.enum, errors),
+      errors,
+    };
+  }
+
+  private coerceScalar(
+    field: string,
+    raw: any,
+    type: FilterSchema[string]['type'],
+    allowed: any[] | undefined,
+    errors: string[]
+  ): any {
+    if (typeof raw !== 'string') {
+      return raw;
+    }
+
+    const text = raw.trim();
+    let value: any = raw;
+
+    switch (type) {
+      case 'number':
+        value = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text) ? Number(text) : undefined;
+        break;
+      case 'boolean':
+        value = BOOLEAN_TOKENS.get(text.toLowerCase());
+        break;
+      case 'date':
+        value = this.parseIsoDate(text);
+        break;
+    }
+
+    if (value === undefined) {
+      errors.push(`Cannot coerce value '${raw}' for field '${field}' to ${type}`);
+      return raw;
+    }
+
+    if (allowed) {
+      const match = allowed.find(option => option === value || String(option) === text);
+      if (match === undefined) {
+        errors.push(`Value '${raw}' for field '${field}' is not one of: ${allowed.join(', ')}`);
+        return raw;
+      }
+      return match;
+    }
+
+    return value;
+  }
+
+  private parseIsoDate(text: string): Date | undefined {
+    const match =
+      /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/.exec(
+        text
+      );
+    if (!match) {
+      return undefined;
+    }
+
+    // Reject overflowing components such as 2024-02-30, which Date would roll over
+    const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+    const calendar = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+    if (
+      calendar.getUTCMonth() !== Number(month) - 1 ||
+      calendar.getUTCDate() !== Number(day) ||
+      Number(hour) > 23 ||
+      Number(minute) > 59 ||
+      Number(second) > 59
+    ) {
+      return undefined;
+    }
+
+    const date = new Date(text.replace(' ', 'T'));
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  /**
+   * Resolve a relative date range into plain comparisons on the field
+   */
+  private processDateOperator(condition: FilterCondition, errors: string[]): any {
+    let resolved: FilterCondition | FilterGroup;
+    try {
+      resolved = this.dateResolver.toConditions(condition);
+    } catch (error) {
+      errors.push(
+        `Invalid date range for field '${condition.field}': ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return {};
+    }
+
+    const compile = (comparison: FilterCondition) =>
+      this.processOperator(
+        this.toColumnReference(comparison.field),
+        comparison.operator,
+        comparison.value
+      );
+
+    if ('conditions' in resolved) {
+      return {
+        [resolved.operator === 'and' ? Op.and : Op.or]: (
+          resolved.conditions as FilterCondition[]
+        ).map(compile),
+      };
+    }
+    return compile(resolved);
+  }
+
+  /**
+   * Build a LIKE condition from a pattern whose literal parts are already escaped.
+   * Pattern operators match case-insensitively unless the condition asks otherwise;
+   * notLike has always been case-sensitive.
+   */
+  private processPatternOperator(
+    field: string,
+    operator: FilterOperator,
+    pattern: string,
+    warnings: string[],
+    caseSensitive?: boolean
+  ): any {
+    const negated = operator === 'notLike' || operator === 'notILike';
+    let sensitive = caseSensitive === true;
+    if (operator === 'notLike') {
+      sensitive = caseSensitive !== false;
+    } else if (operator === 'iLike' || operator === 'notILike') {
+      sensitive = false;
+    }
+
+    const translation = this.capabilities.buildLike(field, pattern, {
+      caseSensitive: sensitive,
+      negated,
+    });
+    warnings.push(...translation.warnings);
+    return translation.result;
+  }
+
+  /**
+   * Turn a pattern operator's value into a LIKE pattern. User values are escaped so `%` and
+   * `_` match literally; the like family keeps raw patterns when the condition or schema opts in.
+   */
+  private toLikePattern(
+    condition: FilterCondition,
+    value: any,
+    fieldSchema: FilterSchema[string] | undefined
+  ): string {
+    const literal = DialectCapabilities.escapeLike(String(value));
+
+    switch (condition.operator) {
+      case 'startsWith':
+        return `${literal}%`;
+      case 'endsWith':
+        return `%${literal}`;
+      case 'contains':
+        return `%${literal}%`;
+    }
+
+    return condition.rawPattern || fieldSchema?.rawPatterns ? String(value) : literal;
+  }
+
+  private checkPattern(
+    field: string,
+    pattern: string,
+    fieldSchema: FilterSchema[string] | undefined
+  ): string | null {
+    if (!fieldSchema) {
+      return null;
+    }
+
+    if (
+      fieldSchema.maxPatternLength !== undefined &&
+      pattern.length > fieldSchema.maxPatternLength
+    ) {
+      return `Pattern for field '${field}' exceeds ${fieldSchema.maxPatternLength} characters`;
+    }
+    if (
+      fieldSchema.allowLeadingWildcard === false &&
+      DialectCapabilities.hasLeadingWildcard(pattern)
+    ) {
+      return `Leading wildcards are not allowed for field '${field}'`;
+    }
+    return null;
+  }
+
+  /**
+   * Build a condition on a Postgres ARRAY column
+   */
+  private processArrayOperator(field: string, operator: FilterOperator, value: any): any {
+    const { dialect, supportsArrays } = this.capabilities;
+    if (dialect && !supportsArrays) {
+      throw new Error(
+        `Operator '${operator}' requires a PostgreSQL ARRAY column and is not supported on dialect '${dialect}'`
+      );
+    }
+
+    const list = Array.isArray(value) ? value : [value];
+
+    switch (operator) {
+      case 'overlap':
+        return { [field]: { [Op.overlap]: list } };
+      case 'arrayContains':
+        return { [field]: { [Op.contains]: list } };
+      case 'arrayContainedBy':
+        return { [field]: { [Op.contained]: list } };
+      default:
+        return where(
+          fn('cardinality', col(field.replace(/^\$|\$$/g, ''))),
+          this.toLengthComparisons(value)
+        );
+    }
+  }
+
+  /**
+   * Turn an arrayLength value (a number or `{ gte: 1, lt: 5 }`) into Sequelize comparisons
+   */
+  private toLengthComparisons(value: any): Record<symbol, number> {
+    const comparisons: Record<string, symbol> = {
+      eq: Op.eq,
+      ne: Op.ne,
+      gt: Op.gt,
+      gte: Op.gte,
+      lt: Op.lt,
+      lte: Op.lte,
+    };
+    const bounds: Record<string, any> =
+      value !== null && typeof value === 'object' ? value : { eq: value };
+
+    const entries = Object.entries(bounds);
+    if (entries.length === 0) {
+      throw new Error("Operator 'arrayLength' expects a number or comparison object");
+    }
+
+    return entries.reduce<Record<symbol, number>>((result, [key, length]) => {
+      const symbol = comparisons[key];
+      if (!symbol || !Number.isInteger(Number(length)) || Number(length) < 0) {
+        throw new Error(
+          `Invalid arrayLength comparison '${key}': expected one of ${Object.keys(comparisons).join(', ')} with a non-negative integer`
+        );
+      }
+      result[symbol] = Number(length);
+      return result;
+    }, {});
+  }
+
+  /**
+   * Build a JSON path condition for the current dialect
+   */
+  private processJsonOperator(field: string, operator: FilterOperator, value: any): any {
+    const [column, ...path] = field.split('.') as [string, ...string[]];
+    const keyPath = operator === 'jsonHasKey' ? [...path, ...String(value).split('.')] : path;
+
+    [column, ...keyPath].forEach(segment => {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(segment)) {
+        throw new Error(`Invalid JSON path segment "${segment}" in "${field}"`);
+      }
+    });
+
+    switch (this.capabilities.dialect) {
+      case 'postgres': {
+        const target = (segments: string[]) =>
+          segments.length > 0
+            ? fn('jsonb_extract_path', cast(col(column), 'jsonb'), ...segments)
+            : cast(col(column), 'jsonb');
+
+        if (operator === 'jsonHasKey') {
+          return where(target(keyPath), { [Op.not]: null });
+        }
+        const candidate = operator === 'jsonArrayContains' ? [value] : value;
+        return where(target(path), { [Op.contains]: JSON.stringify(candidate) });
+      }
+
+      case 'mysql':
+      case 'mariadb': {
+        if (operator === 'jsonHasKey') {
+          return where(fn('JSON_CONTAINS_PATH', col(column), 'one', this.toJsonPath(keyPath)), 1);
+        }
+        return where(
+          fn('JSON_CONTAINS', col(column), JSON.stringify(value), this.toJsonPath(path)),
+          1
+        );
+      }
+
+      case 'sqlite': {
+        if (operator === 'jsonHasKey') {
+          return where(fn('json_type', col(column), this.toJsonPath(keyPath)), {
+            [Op.not]: null,
+          });
+        }
+        if (operator === 'jsonArrayContains') {
+          return literal(
+            `EXISTS (SELECT 1 FROM json_each("${column}", '${this.toJsonPath(path)}') ` +
+              `WHERE value = ${this.toSqliteLiteral(value)})`
+          );
+        }
+        return this.processSqliteJsonContains(column, path, value);
+      }
+
+      default:
+        throw new Error(
+          `Operator '${operator}' is not supported on dialect '${this.capabilities.dialect ?? 'unknown'}'`
+        );
+    }
+  }
+
+  /**
+   * Emulate JSON containment on SQLite by comparing every scalar leaf with json_extract
+   */
+  private processSqliteJsonContains(column: string, path: string[], value: any): any {
+    if (Array.isArray(value)) {
+      throw new Error("Operator 'jsonContains' does not support arrays on dialect 'sqlite'");
+    }
+
+    if (value === null || typeof value !== 'object') {
+      return where(fn('json_extract', col(column), this.toJsonPath(path)), value);
+    }
+
+    return {
+      [Op.and]: Object.entries(value).map(([key, nested]) =>
+        this.processSqliteJsonContains(column, [...path, key], nested)
+      ),
+    };
+  }
+
+  private toJsonPath(path: string[]): string {
+    return ['$', ...path].join('.');
+  }
+
+  private toSqliteLiteral(value: any): string {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return String(value);
+    }
+    if (typeof value === 'boolean') {
+      return value ? '1' : '0';
+    }
+    if (typeof value === 'string') {
+      return `'${value.replace(/'/g, "''")}'`;
+    }
+    throw new Error("Operator 'jsonArrayContains' expects a string, number or boolean");
+  }
+
+  /**
+   * Check a JSON path condition against the `paths` declared for its column
+   */
+  private checkJsonPath(condition: FilterCondition): string | null {
+    const [root, ...path] = condition.field.split('.');
+    const rootSchema = this.schema[root as string];
+    if (rootSchema?.type !== 'object' || !rootSchema.paths) {
+      return null;
+    }
+
+    const keyPath = condition.operator === 'jsonHasKey' ? [...path, String(condition.value)] : path;
+    if (keyPath.length === 0 || rootSchema.paths.includes(keyPath.join('.'))) {
+      return null;
+    }
+
+    return `JSON path '${keyPath.join('.')}' is not filterable on field '${root}'`;
+  }
+
+  /**
+   * Turn dotted association paths (author.profile.country) into `$author.profile.country$`
+   */
+  private toColumnReference(field: string): string {
+    if (!field.includes('.') || /^\$.*\$$/.test(field)) {
+      return field;
+    }
+
+    // Dotted paths into JSON columns are left to Sequelize's nested key syntax
+    const [root] = field.split('.');
+    if (this.schema[root as string]?.type === 'object') {
+      return field;
+    }
+
+    return `$${field}$`;
+  }
+
   private validateCondition(condition: FilterCondition): boolean {
     if (!condition.field || !condition.operator) {
       return false;
@@ -190,7 +867,63 @@ export class FilterProcessor {
   public getSchema(): FilterSchema {
     return this.schema;
   }
+
+  public setDialect(dialect: string | undefined): void {
+    this.capabilities = new DialectCapabilities(dialect);
+  }
+
+  public getDialect(): string | undefined {
+    return this.capabilities.dialect;
+  }
+
+  /**
+   * List the fields strict mode rejects because they have no schema entry
+   */
+  public getDisallowedFields(fields: string[]): string[] {
+    if (!this.strict) {
+      return [];
+    }
+    return fields.filter(field => !ValidationUtils.getFilterFieldSchema(this.schema, field));
+  }
+
+  /**
+   * In strict mode, fields without a schema entry are rejected instead of passed through
+   */
+  public setStrict(strict: boolean): void {
+    this.strict = strict;
+  }
+
+  public isStrict(): boolean {
+    return this.strict;
+  }
+
+  public setDateResolver(dateResolver: RelativeDateResolver): void {
+    this.dateResolver = dateResolver;
+  }
+
+  public getDateResolver(): RelativeDateResolver {
+    return this.dateResolver;
+  }
+
+  public setCapabilities(capabilities: DialectCapabilities): void {
+    this.capabilities = capabilities;
+  }
+
+  public getCapabilities(): DialectCapabilities {
+    return this.capabilities;
+  }
+
+  /**
+   * Set the complexity limits checked before filters are compiled
+   */
+  public setLimits(limits: FilterLimits): void {
+    this.limits = limits;
+  }
+
+  public getLimits(): FilterLimits {
+    return this.limits;
+  }
 }
 
 // Import Sequelize operators
-import { Op } from 'sequelize';
+import { Op, cast, col, fn, literal, where } from 'sequelize';
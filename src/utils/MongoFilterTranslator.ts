@@ -0,0 +1,444 @@
+import { FilterCondition, FilterGroup, FilterOperator, FilterSchema } from '../types/FilterTypes';
+import { FilterProcessor } from './FilterProcessor';
+import { ValidationUtils } from './ValidationUtils';
+import { ValidationError } from '../errors/ValidationError';
+
+export interface MongoFilterTranslatorOptions {
+  maxDepth?: number;
+}
+
+type FilterNode = FilterCondition | FilterGroup;
+
+/**
+ * Mongo comparison operators and the FilterOperator they map to
+ */
+export const MONGO_OPERATORS: Record<string, FilterOperator> = {
+  $eq: 'eq',
+  $ne: 'ne',
+  $gt: 'gt',
+  $gte: 'gte',
+  $lt: 'lt',
+  $lte: 'lte',
+  $in: 'in',
+  $nin: 'notIn',
+  $regex: 'regexp',
+  $exists: 'isNot',
+};
+
+const LOGICAL_OPERATORS = ['$and', '$or', '$nor', '$not'];
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+const RESERVED_FIELDS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Translates MongoDB-style filter documents into FilterGroup trees, e.g.
+ * `{ $and: [{ price: { $gte: 10 } }, { tags: { $in: ['a'] } }] }`.
+ *
+ * Only the operators in MONGO_OPERATORS plus `$and`, `$or`, `$nor` and `$not` are
+ * accepted. Unknown `$`-keys, Symbol keys (such as Sequelize `Op` symbols) and
+ * non-JSON values are rejected so documents cannot smuggle raw operators into
+ * the generated where clause.
+ */
+export class MongoFilterTranslator {
+  private schema: FilterSchema;
+  private maxDepth: number;
+  private requestId: string | undefined;
+
+  constructor(
+    schema: FilterSchema = {},
+    options: MongoFilterTranslatorOptions = {},
+    requestId?: string
+  ) {
+    this.schema = schema;
+    this.maxDepth = options.maxDepth || 10;
+    this.requestId = requestId;
+  }
+
+  /**
+   * Translate a filter document into a filter group
+   */
+  public translate(document: any): FilterGroup {
+    const errors: ValidationError[] = [];
+    const node = this.translateDocument(document, [], errors, 0);
+
+    // Check the schema after negation so the operators that will actually run are validated
+    if (errors.length === 0) {
+      this.checkSchema(node, errors);
+    }
+
+    if (errors.length > 0) {
+      const [first] = errors as [ValidationError];
+      throw new ValidationError(
+        errors.length === 1 ? first.message : `${first.message} (and ${errors.length - 1} more)`,
+        first.code,
+        first.field,
+        first.value,
+        {
+          errors: errors.map(error => ({
+            path: error.field,
+            code: error.code,
+            message: error.message,
+          })),
+          supportedOperators: [...LOGICAL_OPERATORS, ...Object.keys(MONGO_OPERATORS)],
+        },
+        this.requestId
+      );
+    }
+
+    return 'conditions' in node ? node : { operator: 'and', conditions: [node] };
+  }
+
+  private translateDocument(
+    document: any,
+    path: string[],
+    errors: ValidationError[],
+    depth: number
+  ): FilterNode {
+    const group: FilterGroup = { operator: 'and', conditions: [] };
+
+    if (depth > this.maxDepth) {
+      errors.push(
+        this.error(`Filter nesting exceeds ${this.maxDepth} levels`, 'FILTER_TOO_DEEP', path)
+      );
+      return group;
+    }
+
+    if (!this.isPlainObject(document)) {
+      errors.push(this.error('Filter must be an object', 'INVALID_FILTER', path, document));
+      return group;
+    }
+
+    if (!this.checkSymbolKeys(document, path, errors)) {
+      return group;
+    }
+
+    Object.entries(document).forEach(([key, value]) => {
+      const keyPath = [...path, key];
+
+      if (key.startsWith('$')) {
+        const node = this.translateLogical(key, value, keyPath, errors, depth);
+        if (node) group.conditions.push(node);
+        return;
+      }
+
+      if (!FIELD_PATTERN.test(key) || RESERVED_FIELDS.includes(key)) {
+        errors.push(this.error(`Invalid filter field "${key}"`, 'INVALID_FILTER_FIELD', keyPath));
+        return;
+      }
+
+      group.conditions.push(...this.translateField(key, value, keyPath, errors));
+    });
+
+    return group.conditions.length === 1 ? (group.conditions[0] as FilterNode) : group;
+  }
+
+  private translateLogical(
+    operator: string,
+    value: any,
+    path: string[],
+    errors: ValidationError[],
+    depth: number
+  ): FilterNode | null {
+    if (!LOGICAL_OPERATORS.includes(operator)) {
+      errors.push(
+        this.error(`Unknown filter operator "${operator}"`, 'INVALID_FILTER_OPERATOR', path)
+      );
+      return null;
+    }
+
+    if (operator === '$not') {
+      const node = this.translateDocument(value, path, errors, depth + 1);
+      return this.negate(node, path, errors);
+    }
+
+    if (!Array.isArray(value) || value.length === 0) {
+      errors.push(
+        this.error(
+          `Logical "${operator}" expects a non-empty array of filters`,
+          'INVALID_FILTER_GROUP',
+          path,
+          value
+        )
+      );
+      return null;
+    }
+
+    const conditions = value.map((member, index) =>
+      this.translateDocument(member, [...path, String(index)], errors, depth + 1)
+    );
+
+    if (operator === '$nor') {
+      return this.negate({ operator: 'or', conditions }, path, errors);
+    }
+
+    return { operator: operator === '$and' ? 'and' : 'or', conditions };
+  }
+
+  private translateField(
+    field: string,
+    value: any,
+    path: string[],
+    errors: ValidationError[]
+  ): FilterNode[] {
+    if (value instanceof RegExp) {
+      const condition = this.buildRegexCondition(field, value, undefined, path, errors);
+      return condition ? [condition] : [];
+    }
+
+    if (!this.isPlainObject(value)) {
+      if (!this.isScalar(value)) {
+        errors.push(
+          this.error(
+            `Filter "${field}" expects a scalar value or an operator document`,
+            'INVALID_FILTER_VALUE',
+            path,
+            value
+          )
+        );
+        return [];
+      }
+      return [
+        value === null ? { field, operator: 'is', value: null } : { field, operator: 'eq', value },
+      ];
+    }
+
+    if (!this.checkSymbolKeys(value, path, errors)) {
+      return [];
+    }
+
+    const keys = Object.keys(value);
+    if (keys.length === 0 || keys.some(key => !key.startsWith('$'))) {
+      errors.push(
+        this.error(
+          `Filter "${field}" must only contain operators`,
+          'INVALID_FILTER_VALUE',
+          path,
+          value
+        )
+      );
+      return [];
+    }
+
+    if (keys.includes('$options') && !keys.includes('$regex')) {
+      errors.push(
+        this.error('"$options" is only allowed together with "$regex"', 'INVALID_FILTER_VALUE', [
+          ...path,
+          '$options',
+        ])
+      );
+    }
+
+    const nodes: FilterNode[] = [];
+    keys.forEach(key => {
+      if (key === '$options') return;
+
+      const operatorPath = [...path, key];
+      if (key === '$not') {
+        const inner = this.translateField(field, value[key], operatorPath, errors);
+        if (inner.length > 0) {
+          const negated = this.negate(
+            inner.length === 1 ? (inner[0] as FilterNode) : { operator: 'and', conditions: inner },
+            operatorPath,
+            errors
+          );
+          if (negated) nodes.push(negated);
+        }
+        return;
+      }
+
+      const condition = this.buildCondition(field, key, value[key], value, operatorPath, errors);
+      if (condition) {
+        nodes.push(condition);
+      }
+    });
+
+    return nodes;
+  }
+
+  private buildCondition(
+    field: string,
+    key: string,
+    operand: any,
+    document: Record<string, any>,
+    path: string[],
+    errors: ValidationError[]
+  ): FilterCondition | null {
+    const operator = MONGO_OPERATORS[key];
+    if (!operator) {
+      errors.push(
+        this.error(`Unknown filter operator "${key}"`, 'INVALID_FILTER_OPERATOR', path, key)
+      );
+      return null;
+    }
+
+    switch (key) {
+      case '$in':
+      case '$nin':
+        if (!Array.isArray(operand) || !operand.every(item => this.isScalar(item))) {
+          errors.push(
+            this.error(
+              `Filter operator "${key}" expects an array of scalar values`,
+              'INVALID_FILTER_VALUE',
+              path,
+              operand
+            )
+          );
+          return null;
+        }
+        return { field, operator, value: operand };
+
+      case '$exists':
+        if (typeof operand !== 'boolean') {
+          errors.push(
+            this.error(
+              'Filter operator "$exists" expects true or false',
+              'INVALID_FILTER_VALUE',
+              path,
+              operand
+            )
+          );
+          return null;
+        }
+        return { field, operator: operand ? 'isNot' : 'is', value: null };
+
+      case '$regex':
+        return this.buildRegexCondition(field, operand, document['$options'], path, errors);
+    }
+
+    if (!this.isScalar(operand)) {
+      errors.push(
+        this.error(
+          `Filter operator "${key}" expects a scalar value`,
+          'INVALID_FILTER_VALUE',
+          path,
+          operand
+        )
+      );
+      return null;
+    }
+
+    if (operand === null && (operator === 'eq' || operator === 'ne')) {
+      return { field, operator: operator === 'eq' ? 'is' : 'isNot', value: null };
+    }
+
+    return { field, operator, value: operand };
+  }
+
+  private buildRegexCondition(
+    field: string,
+    operand: any,
+    options: any,
+    path: string[],
+    errors: ValidationError[]
+  ): FilterCondition | null {
+    const pattern = operand instanceof RegExp ? operand.source : operand;
+    const flags = operand instanceof RegExp ? operand.flags : (options ?? '');
+
+    if (typeof pattern !== 'string') {
+      errors.push(
+        this.error(
+          'Filter operator "$regex" expects a string or RegExp',
+          'INVALID_FILTER_VALUE',
+          path,
+          operand
+        )
+      );
+      return null;
+    }
+
+    if (typeof flags !== 'string' || flags !== '') {
+      errors.push(
+        this.error(
+          'Regular expression options are not supported',
+          'INVALID_FILTER_VALUE',
+          operand instanceof RegExp ? path : [...path.slice(0, -1), '$options'],
+          flags
+        )
+      );
+      return null;
+    }
+
+    return { field, operator: 'regexp', value: pattern };
+  }
+
+  private negate(node: FilterNode, path: string[], errors: ValidationError[]): FilterNode | null {
+    const negated = FilterProcessor.negate(node);
+    if (!negated) {
+      errors.push(this.error('Filter cannot be negated', 'INVALID_FILTER_GROUP', path));
+    }
+    return negated;
+  }
+
+  private checkSchema(node: FilterNode, errors: ValidationError[]): void {
+    if (Object.keys(this.schema).length === 0) {
+      return;
+    }
+
+    if ('conditions' in node) {
+      node.conditions.forEach(condition => this.checkSchema(condition, errors));
+      return;
+    }
+
+    const fieldSchema = ValidationUtils.getFilterFieldSchema(this.schema, node.field);
+    if (!fieldSchema) {
+      errors.push(
+        this.error(
+          `Field "${node.field}" is not filterable`,
+          'FIELD_NOT_ALLOWED',
+          [node.field],
+          node.field
+        )
+      );
+      return;
+    }
+
+    if (!fieldSchema.operators.includes(node.operator)) {
+      errors.push(
+        this.error(
+          `Operator "${node.operator}" is not allowed for field "${node.field}"`,
+          'OPERATOR_NOT_ALLOWED',
+          [node.field],
+          node.operator
+        )
+      );
+    }
+  }
+
+  private checkSymbolKeys(value: object, path: string[], errors: ValidationError[]): boolean {
+    if (Object.getOwnPropertySymbols(value).length === 0) {
+      return true;
+    }
+    errors.push(
+      this.error('Symbol keys are not allowed in filter documents', 'INVALID_FILTER_OPERATOR', path)
+    );
+    return false;
+  }
+
+  private isPlainObject(value: any): value is Record<string, any> {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+  }
+
+  private isScalar(value: any): boolean {
+    return (
+      value === null ||
+      typeof value === 'string' ||
+      typeof value === 'boolean' ||
+      (typeof value === 'number' && Number.isFinite(value)) ||
+      (value instanceof Date && !isNaN(value.getTime()))
+    );
+  }
+
+  private error(message: string, code: string, path: string[], value?: any): ValidationError {
+    return new ValidationError(
+      message,
+      code,
+      path.length > 0 ? path.join('.') : undefined,
+      value,
+      undefined,
+      this.requestId
+    );
+  }
+}
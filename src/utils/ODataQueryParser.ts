@@ -0,0 +1,561 @@
+import { FilterCondition, FilterGroup, FilterOperator, FilterSchema } from '../types/FilterTypes';
+import { SortOptions } from '../types/QueryTypes';
+import { FilterProcessor } from './FilterProcessor';
+import { ValidationUtils } from './ValidationUtils';
+import { ValidationError } from '../errors/ValidationError';
+
+export interface ODataQuery {
+  filter?: FilterGroup;
+  filterExpression?: string;
+  orderBy: SortOptions[];
+  top?: number;
+  skip?: number;
+  select?: string[];
+  count?: boolean;
+}
+
+type FilterNode = FilterCondition | FilterGroup;
+
+interface Token {
+  type: 'identifier' | 'string' | 'number' | 'date' | 'punctuation';
+  value: string;
+  offset: number;
+}
+
+const SUPPORTED_OPTIONS = ['$filter', '$orderby', '$top', '$skip', '$select', '$count'];
+
+const COMPARISON_OPERATORS = new Map<string, FilterOperator>([
+  ['eq', 'eq'],
+  ['ne', 'ne'],
+  ['gt', 'gt'],
+  ['ge', 'gte'],
+  ['lt', 'lt'],
+  ['le', 'lte'],
+]);
+
+const STRING_FUNCTIONS = new Map<string, FilterOperator>([
+  ['contains', 'contains'],
+  ['startswith', 'startsWith'],
+  ['endswith', 'endsWith'],
+]);
+
+/**
+ * Parses OData v4 system query options ($filter, $orderby, $top, $skip, $select, $count)
+ * into filter groups, sort options and pagination values.
+ *
+ * `$filter` supports eq/ne/gt/ge/lt/le, and/or/not, `in`, parentheses and the
+ * contains/startswith/endswith functions. Navigation paths (`address/city`) become
+ * dotted fields. Anything else is rejected with an `ODATA_UNSUPPORTED` ValidationError.
+ */
+export class ODataQueryParser {
+  private schema: FilterSchema;
+  private requestId: string | undefined;
+  private tokens: Token[] = [];
+  private index: number = 0;
+  private expression: string = '';
+
+  constructor(schema: FilterSchema = {}, requestId?: string) {
+    this.schema = schema;
+    this.requestId = requestId;
+  }
+
+  /**
+   * Parse a raw query string or a parsed query object
+   */
+  public parse(query: string | Record<string, any>): ODataQuery {
+    const options = typeof query === 'string' ? this.parseQueryString(query) : query;
+    const result: ODataQuery = { orderBy: [] };
+
+    Object.entries(options).forEach(([name, raw]) => {
+      if (!name.startsWith('$')) return;
+
+      if (!SUPPORTED_OPTIONS.includes(name)) {
+        throw this.unsupported(name, `Query option "${name}" is not supported`, 0, raw, {
+          supportedOptions: SUPPORTED_OPTIONS,
+        });
+      }
+
+      if (typeof raw !== 'string') {
+        throw this.invalid(name, `Query option "${name}" must be a single string value`, 0, raw);
+      }
+
+      switch (name) {
+        case '$filter':
+          result.filter = this.parseFilter(raw);
+          result.filterExpression = raw;
+          break;
+        case '$orderby':
+          result.orderBy = this.parseOrderBy(raw);
+          break;
+        case '$top':
+          result.top = this.parseInteger(name, raw);
+          break;
+        case '$skip':
+          result.skip = this.parseInteger(name, raw);
+          break;
+        case '$select':
+          result.select = this.parseSelect(raw);
+          break;
+        case '$count':
+          if (raw !== 'true' && raw !== 'false') {
+            throw this.invalid(name, '$count must be true or false', 0, raw);
+          }
+          result.count = raw === 'true';
+          break;
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Parse a $filter expression into a filter group
+   */
+  public parseFilter(expression: string): FilterGroup {
+    this.expression = expression;
+    this.tokens = this.tokenize(expression);
+    this.index = 0;
+
+    if (this.tokens.length === 0) {
+      throw this.invalid('$filter', '$filter expression is empty', 0, expression);
+    }
+
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw this.invalid('$filter', `Unexpected token "${extra.value}"`, extra.offset, expression);
+    }
+
+    return 'conditions' in node ? node : { operator: 'and', conditions: [node] };
+  }
+
+  /**
+   * Parse an $orderby expression into sort options
+   */
+  public parseOrderBy(expression: string): SortOptions[] {
+    return expression.split(',').map(part => {
+      const [path, direction, ...rest] = part.trim().split(/\s+/);
+      if (!path || rest.length > 0 || !/^[A-Za-z_]\w*(\/[A-Za-z_]\w*)*$/.test(path)) {
+        throw this.invalid(
+          '$orderby',
+          `Invalid $orderby item "${part.trim()}"`,
+          expression.indexOf(part),
+          expression
+        );
+      }
+
+      const order = (direction || 'asc').toLowerCase();
+      if (order !== 'asc' && order !== 'desc') {
+        throw this.invalid(
+          '$orderby',
+          `Invalid sort direction "${direction}"`,
+          expression.indexOf(part),
+          expression
+        );
+      }
+
+      return { column: path.replace(/\//g, '.'), order: order === 'asc' ? 'ASC' : 'DESC' };
+    });
+  }
+
+  private parseSelect(expression: string): string[] {
+    return expression.split(',').map(part => {
+      const field = part.trim();
+      if (field === '*') {
+        throw this.unsupported('$select', '$select=* is not supported', 0, expression);
+      }
+      if (!/^[A-Za-z_]\w*$/.test(field)) {
+        throw this.unsupported(
+          '$select',
+          `Cannot select "${field}", only columns of the entity set are supported`,
+          expression.indexOf(part),
+          expression
+        );
+      }
+      return field;
+    });
+  }
+
+  private parseInteger(option: string, raw: string): number {
+    if (!/^\d+$/.test(raw)) {
+      throw this.invalid(option, `${option} must be a non-negative integer`, 0, raw);
+    }
+    return parseInt(raw, 10);
+  }
+
+  private parseOr(): FilterNode {
+    const nodes = [this.parseAnd()];
+    while (this.matchKeyword('or')) {
+      nodes.push(this.parseAnd());
+    }
+    return nodes.length === 1 ? (nodes[0] as FilterNode) : { operator: 'or', conditions: nodes };
+  }
+
+  private parseAnd(): FilterNode {
+    const nodes = [this.parseUnary()];
+    while (this.matchKeyword('and')) {
+      nodes.push(this.parseUnary());
+    }
+    return nodes.length === 1 ? (nodes[0] as FilterNode) : { operator: 'and', conditions: nodes };
+  }
+
+  private parseUnary(): FilterNode {
+    const token = this.peek();
+    if (token && this.matchKeyword('not')) {
+      return this.negate(this.parseUnary(), token);
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterNode {
+    const token = this.next();
+    if (!token) {
+      throw this.invalid(
+        '$filter',
+        'Unexpected end of expression',
+        this.expression.length,
+        this.expression
+      );
+    }
+
+    if (token.type === 'punctuation' && token.value === '(') {
+      const node = this.parseOr();
+      this.expect(')');
+      return node;
+    }
+
+    if (token.type !== 'identifier') {
+      throw this.invalid(
+        '$filter',
+        `Expected a property or function, found "${token.value}"`,
+        token.offset,
+        this.expression
+      );
+    }
+
+    if (this.peek()?.value === '(') {
+      return this.parseFunction(token);
+    }
+
+    return this.parseComparison(token);
+  }
+
+  private parseFunction(nameToken: Token): FilterNode {
+    const operator = STRING_FUNCTIONS.get(nameToken.value);
+    if (!operator) {
+      throw this.unsupported(
+        '$filter',
+        `Function "${nameToken.value}" is not supported`,
+        nameToken.offset,
+        this.expression,
+        { supportedFunctions: [...STRING_FUNCTIONS.keys()] }
+      );
+    }
+
+    this.expect('(');
+    const field = this.expectProperty();
+    this.expect(',');
+    const value = this.parseLiteral();
+    this.expect(')');
+
+    if (typeof value !== 'string') {
+      throw this.invalid(
+        '$filter',
+        `Function "${nameToken.value}" expects a string literal`,
+        nameToken.offset,
+        this.expression
+      );
+    }
+
+    // Boolean functions may be compared with true/false: contains(name,'x') eq false
+    const comparison = this.peek();
+    if (comparison && (comparison.value === 'eq' || comparison.value === 'ne')) {
+      this.next();
+      const expected = this.parseLiteral();
+      if (typeof expected !== 'boolean') {
+        throw this.invalid(
+          '$filter',
+          'Function results can only be compared with true or false',
+          comparison.offset,
+          this.expression
+        );
+      }
+      const condition = this.checkSchema({ field, operator, value }, nameToken);
+      return (comparison.value === 'eq') === expected
+        ? condition
+        : this.negate(condition, nameToken);
+    }
+
+    return this.checkSchema({ field, operator, value }, nameToken);
+  }
+
+  private parseComparison(fieldToken: Token): FilterNode {
+    const field = this.toField(fieldToken);
+    const operatorToken = this.next();
+
+    if (!operatorToken || operatorToken.type !== 'identifier') {
+      throw this.invalid(
+        '$filter',
+        `Expected an operator after "${fieldToken.value}"`,
+        operatorToken?.offset ?? this.expression.length,
+        this.expression
+      );
+    }
+
+    if (operatorToken.value === 'in') {
+      this.expect('(');
+      const values = [this.parseLiteral()];
+      while (this.peek()?.value === ',') {
+        this.next();
+        values.push(this.parseLiteral());
+      }
+      this.expect(')');
+      return this.checkSchema({ field, operator: 'in', value: values }, fieldToken);
+    }
+
+    const operator = COMPARISON_OPERATORS.get(operatorToken.value);
+    if (!operator) {
+      throw this.unsupported(
+        '$filter',
+        `Operator "${operatorToken.value}" is not supported`,
+        operatorToken.offset,
+        this.expression,
+        { supportedOperators: [...COMPARISON_OPERATORS.keys(), 'in'] }
+      );
+    }
+
+    const value = this.parseLiteral();
+    if (value === null && (operator === 'eq' || operator === 'ne')) {
+      return this.checkSchema(
+        { field, operator: operator === 'eq' ? 'is' : 'isNot', value: null },
+        fieldToken
+      );
+    }
+
+    return this.checkSchema({ field, operator, value }, fieldToken);
+  }
+
+  private parseLiteral(): any {
+    const token = this.next();
+    if (!token) {
+      throw this.invalid(
+        '$filter',
+        'Expected a literal value',
+        this.expression.length,
+        this.expression
+      );
+    }
+
+    switch (token.type) {
+      case 'string':
+      case 'date':
+        return token.value;
+      case 'number':
+        return Number(token.value);
+      case 'identifier':
+        if (token.value === 'true') return true;
+        if (token.value === 'false') return false;
+        if (token.value === 'null') return null;
+        break;
+    }
+
+    throw this.unsupported(
+      '$filter',
+      `Expected a literal value, found "${token.value}"`,
+      token.offset,
+      this.expression
+    );
+  }
+
+  /**
+   * Negate a node by flipping operators and applying De Morgan's laws to groups
+   */
+  private negate(node: FilterNode, token: Token): FilterNode {
+    const negated = FilterProcessor.negate(node);
+    if (!negated) {
+      throw this.unsupported(
+        '$filter',
+        'Expression cannot be negated',
+        token.offset,
+        this.expression
+      );
+    }
+    return negated;
+  }
+
+  private checkSchema(condition: FilterCondition, token: Token): FilterCondition {
+    if (Object.keys(this.schema).length === 0) {
+      return condition;
+    }
+
+    const fieldSchema = ValidationUtils.getFilterFieldSchema(this.schema, condition.field);
+    if (!fieldSchema) {
+      throw this.invalid(
+        '$filter',
+        `Property "${condition.field}" is not filterable`,
+        token.offset,
+        this.expression,
+        'FIELD_NOT_ALLOWED'
+      );
+    }
+
+    if (!fieldSchema.operators.includes(condition.operator)) {
+      throw this.invalid(
+        '$filter',
+        `Operator "${condition.operator}" is not allowed for property "${condition.field}"`,
+        token.offset,
+        this.expression,
+        'OPERATOR_NOT_ALLOWED'
+      );
+    }
+
+    return condition;
+  }
+
+  private expectProperty(): string {
+    const token = this.next();
+    if (!token || token.type !== 'identifier') {
+      throw this.invalid(
+        '$filter',
+        'Expected a property name',
+        token?.offset ?? this.expression.length,
+        this.expression
+      );
+    }
+    return this.toField(token);
+  }
+
+  private toField(token: Token): string {
+    return token.value.replace(/\//g, '.');
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (!token || token.value !== value) {
+      throw this.invalid(
+        '$filter',
+        `Expected "${value}"`,
+        token?.offset ?? this.expression.length,
+        this.expression
+      );
+    }
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token && token.type === 'identifier' && token.value === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    const patterns: [Token['type'], RegExp][] = [
+      ['date', /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?/],
+      ['number', /^-?\d+(\.\d+)?([eE][+-]?\d+)?/],
+      ['identifier', /^[A-Za-z_]\w*(\/[A-Za-z_]\w*)*/],
+      ['punctuation', /^[(),]/],
+    ];
+
+    let offset = 0;
+    while (offset < expression.length) {
+      const rest = expression.slice(offset);
+
+      const whitespace = /^\s+/.exec(rest);
+      if (whitespace) {
+        offset += whitespace[0].length;
+        continue;
+      }
+
+      if (rest[0] === "'") {
+        let value = '';
+        let position = offset + 1;
+        let closed = false;
+        while (position < expression.length) {
+          if (expression[position] === "'") {
+            if (expression[position + 1] === "'") {
+              value += "'";
+              position += 2;
+              continue;
+            }
+            closed = true;
+            break;
+          }
+          value += expression[position];
+          position++;
+        }
+        if (!closed) {
+          throw this.invalid('$filter', 'Unterminated string literal', offset, expression);
+        }
+        tokens.push({ type: 'string', value, offset });
+        offset = position + 1;
+        continue;
+      }
+
+      const match = patterns
+        .map(([type, pattern]) => ({ type, match: pattern.exec(rest) }))
+        .find(candidate => candidate.match);
+
+      if (!match || !match.match) {
+        throw this.invalid('$filter', `Unexpected character "${rest[0]}"`, offset, expression);
+      }
+
+      tokens.push({ type: match.type, value: match.match[0], offset });
+      offset += match.match[0].length;
+    }
+
+    return tokens;
+  }
+
+  private parseQueryString(query: string): Record<string, string> {
+    const result: Record<string, string> = {};
+    new URLSearchParams(query.startsWith('?') ? query.slice(1) : query).forEach((value, key) => {
+      result[key] = value;
+    });
+    return result;
+  }
+
+  private invalid(
+    option: string,
+    message: string,
+    offset: number,
+    value: any,
+    code: string = 'ODATA_PARSE_ERROR'
+  ): ValidationError {
+    return new ValidationError(
+      `${message} (${option} at position ${offset})`,
+      code,
+      option,
+      value,
+      { option, offset },
+      this.requestId
+    );
+  }
+
+  private unsupported(
+    option: string,
+    message: string,
+    offset: number,
+    value: any,
+    extra: Record<string, any> = {}
+  ): ValidationError {
+    return new ValidationError(
+      `${message} (${option} at position ${offset})`,
+      'ODATA_UNSUPPORTED',
+      option,
+      value,
+      { option, offset, ...extra },
+      this.requestId
+    );
+  }
+}
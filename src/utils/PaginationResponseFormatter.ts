@@ -0,0 +1,234 @@
+import {
+  PaginationResult,
+  CursorPaginationResult,
+  PaginationLinks,
+  PaginationResponseFormat,
+  PaginationResponseOptions,
+} from '../types/PaginationTypes';
+import { PaginationBuilder } from '../builders/PaginationBuilder';
+
+type PaginatedResult = PaginationResult | CursorPaginationResult;
+
+const URL_PLACEHOLDER_ORIGIN = 'http://localhost';
+
+export class PaginationResponseFormatter {
+  private paginationBuilder: PaginationBuilder;
+  private options: Required<Omit<PaginationResponseOptions, 'resourceType'>> & {
+    resourceType: string;
+  };
+
+  constructor(options: PaginationResponseOptions = {}, paginationBuilder?: PaginationBuilder) {
+    this.paginationBuilder = paginationBuilder || new PaginationBuilder();
+    this.options = {
+      format: 'plain',
+      pageParam: 'page',
+      pageSizeParam: 'pageSize',
+      cursorParam: 'cursor',
+      directionParam: 'direction',
+      resourceType: 'items',
+      idField: 'id',
+      includeTotalCountHeader: true,
+      includeLinkHeader: true,
+      ...options,
+    };
+  }
+
+  /**
+   * Build first/prev/next/last links for a result, keeping all other query parameters
+   */
+  public buildLinks(url: string, result: PaginatedResult): PaginationLinks {
+    const links: PaginationLinks = { self: url };
+    const pagination: any = result.pagination;
+
+    if (this.isPageResult(result)) {
+      const { page, pageSize, totalPages, hasNext, hasPrev } = result.pagination;
+      const withPage = (target: number): string =>
+        this.withParams(url, {
+          [this.options.pageParam]: String(target),
+          [this.options.pageSizeParam]: String(pageSize),
+        });
+
+      links.first = withPage(1);
+      if (hasPrev) links.prev = withPage(page - 1);
+      if (hasNext) links.next = withPage(page + 1);
+      if (totalPages > 0 && result.pagination.totalIsExact !== false) {
+        links.last = withPage(totalPages);
+      }
+      return links;
+    }
+
+    links.first = this.withParams(url, {
+      [this.options.cursorParam]: null,
+      [this.options.directionParam]: null,
+    });
+    if (pagination.hasPrev && pagination.prevCursor) {
+      links.prev = this.withParams(url, {
+        [this.options.cursorParam]: pagination.prevCursor,
+        [this.options.directionParam]: 'prev',
+      });
+    }
+    if (pagination.hasNext && pagination.nextCursor) {
+      links.next = this.withParams(url, {
+        [this.options.cursorParam]: pagination.nextCursor,
+        [this.options.directionParam]: 'next',
+      });
+    }
+    return links;
+  }
+
+  /**
+   * Serialize links as an RFC 8288 `Link` header value
+   */
+  public buildLinkHeader(links: PaginationLinks): string {
+    return (['first', 'prev', 'next', 'last'] as const)
+      .filter(rel => links[rel])
+      .map(rel => `<${links[rel]}>; rel="${rel}"`)
+      .join(', ');
+  }
+
+  /**
+   * Build the pagination response headers
+   */
+  public buildHeaders(result: PaginatedResult, links: PaginationLinks): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    if (this.options.includeLinkHeader) {
+      const linkHeader = this.buildLinkHeader(links);
+      if (linkHeader) {
+        headers['Link'] = linkHeader;
+      }
+    }
+
+    // An estimated or capped total is not a count a client should rely on
+    if (
+      this.options.includeTotalCountHeader &&
+      this.isPageResult(result) &&
+      result.pagination.totalIsExact !== false
+    ) {
+      headers['X-Total-Count'] = String(result.pagination.total);
+    }
+
+    return headers;
+  }
+
+  /**
+   * Format the response body as plain JSON, JSON:API or HAL
+   */
+  public formatBody(
+    result: PaginatedResult,
+    links: PaginationLinks,
+    format: PaginationResponseFormat = this.options.format
+  ): any {
+    const meta = this.buildMeta(result);
+
+    switch (format) {
+      case 'jsonapi':
+        return {
+          data: result.data.map(row => this.toJsonApiResource(row)),
+          links: {
+            self: links.self,
+            first: links.first ?? null,
+            prev: links.prev ?? null,
+            next: links.next ?? null,
+            last: links.last ?? null,
+          },
+          meta: { page: meta },
+        };
+      case 'hal': {
+        const halLinks: Record<string, { href: string }> = {};
+        (['self', 'first', 'prev', 'next', 'last'] as const).forEach(rel => {
+          const href = links[rel];
+          if (href) halLinks[rel] = { href };
+        });
+        return {
+          _links: halLinks,
+          _embedded: { [this.options.resourceType]: result.data.map(row => this.toPlain(row)) },
+          ...meta,
+        };
+      }
+      default:
+        return {
+          data: result.data,
+          pagination: meta,
+          links,
+        };
+    }
+  }
+
+  /**
+   * Build links, headers and body for a result in one call
+   */
+  public format(
+    url: string,
+    result: PaginatedResult,
+    format?: PaginationResponseFormat
+  ): { headers: Record<string, string>; body: any } {
+    const links = this.buildLinks(url, result);
+    return {
+      headers: this.buildHeaders(result, links),
+      body: this.formatBody(result, links, format),
+    };
+  }
+
+  /**
+   * Build pagination metadata, including start/end indexes for page results.
+   * `hasNext`/`totalPages` from the count strategy win over the ones derived from `total`.
+   */
+  private buildMeta(result: PaginatedResult): Record<string, any> {
+    if (!this.isPageResult(result)) {
+      return { ...result.pagination };
+    }
+
+    const { page, pageSize, total } = result.pagination;
+    return {
+      ...this.paginationBuilder.getMetadata(page, pageSize, total),
+      ...result.pagination,
+    };
+  }
+
+  private toJsonApiResource(row: any): any {
+    const attributes = { ...this.toPlain(row) };
+    const id = attributes[this.options.idField];
+    delete attributes[this.options.idField];
+
+    return {
+      type: this.options.resourceType,
+      id: id === undefined || id === null ? null : String(id),
+      attributes,
+    };
+  }
+
+  private toPlain(row: any): any {
+    return typeof row?.toJSON === 'function' ? row.toJSON() : row;
+  }
+
+  private isPageResult(result: PaginatedResult): result is PaginationResult {
+    return typeof (result.pagination as any).page === 'number';
+  }
+
+  /**
+   * Set or remove query parameters on a relative or absolute URL
+   */
+  private withParams(url: string, params: Record<string, string | null>): string {
+    const absolute = /^[a-z][a-z\d+.-]*:\/\//i.test(url);
+    const parsed = new URL(url, URL_PLACEHOLDER_ORIGIN);
+
+    Object.entries(params).forEach(([key, value]) => {
+      if (value === null) {
+        parsed.searchParams.delete(key);
+      } else {
+        parsed.searchParams.set(key, value);
+      }
+    });
+
+    return absolute ? parsed.toString() : `${parsed.pathname}${parsed.search}`;
+  }
+
+  public setOptions(options: Partial<PaginationResponseOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  public getOptions(): PaginationResponseOptions {
+    return { ...this.options };
+  }
+}
@@ -0,0 +1,274 @@
+import { Model, Op } from 'sequelize';
+import { ValidationError } from '../errors/ValidationError';
+
+/**
+ * Converts query state to and from a versioned, JSON-safe format.
+ *
+ * Format version 1 keeps JSON values as they are and tags the values JSON cannot hold:
+ * - `Date` becomes `{ "$$date": "<ISO-8601>" }`
+ * - a Sequelize model class becomes `{ "$$model": "<model name>" }`
+ * - an operator key such as `Op.gte` becomes the string key `"$$op:gte"`
+ *
+ * Anything else that is not plain data (functions, `fn`/`col`/`literal` expressions,
+ * class instances) is rejected with `UNSERIALIZABLE_QUERY` instead of being lost.
+ *
+ * Serialized queries may come from untrusted sources such as shared URLs, so operator keys
+ * are only decoded below the paths a caller allows (e.g. `options.where`); anywhere else,
+ * including filter condition values, they are rejected.
+ */
+export class QuerySerializer {
+  public static readonly VERSION = 1;
+
+  private static readonly OP_PREFIX = '$$op:';
+
+  /**
+   * Wrap a payload in a versioned envelope
+   */
+  public static wrap<T extends Record<string, any>>(payload: T): { version: number } & T {
+    return { version: QuerySerializer.VERSION, ...QuerySerializer.encode(payload) };
+  }
+
+  /**
+   * Read a versioned envelope (object or JSON string) and return its decoded payload.
+   * `operatorPaths` lists the payload paths below which `$$op:` keys are decoded.
+   */
+  public static unwrap(
+    serialized: Record<string, any> | string,
+    resolveModel?: (name: string) => any,
+    requestId?: string,
+    operatorPaths: string[] = []
+  ): Record<string, any> {
+    let envelope: any = serialized;
+    if (typeof serialized === 'string') {
+      try {
+        envelope = JSON.parse(serialized);
+      } catch (error) {
+        throw new ValidationError(
+          `Serialized query is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          'INVALID_SERIALIZED_QUERY',
+          undefined,
+          serialized,
+          undefined,
+          requestId
+        );
+      }
+    }
+
+    if (envelope === null || typeof envelope !== 'object' || Array.isArray(envelope)) {
+      throw new ValidationError(
+        'Serialized query must be an object',
+        'INVALID_SERIALIZED_QUERY',
+        undefined,
+        serialized,
+        undefined,
+        requestId
+      );
+    }
+
+    if (envelope.version !== QuerySerializer.VERSION) {
+      throw new ValidationError(
+        `Unsupported serialized query version "${envelope.version}"; expected ${QuerySerializer.VERSION}`,
+        'UNSUPPORTED_SERIALIZATION_VERSION',
+        'version',
+        envelope.version,
+        { supportedVersion: QuerySerializer.VERSION },
+        requestId
+      );
+    }
+
+    const { version: _version, ...payload } = envelope;
+    return QuerySerializer.decode(payload, resolveModel, requestId, operatorPaths);
+  }
+
+  /**
+   * Encode a value into the JSON-safe format
+   */
+  public static encode(value: any, path: string = ''): any {
+    if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw QuerySerializer.unserializable(path, value, 'non-finite number');
+      }
+      return value;
+    }
+    if (value instanceof Date) {
+      return { $$date: value.toISOString() };
+    }
+    if (typeof value === 'function' && value.prototype instanceof Model) {
+      return { $$model: value.name };
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => QuerySerializer.encode(item, `${path}[${index}]`));
+    }
+    if (typeof value === 'object' && QuerySerializer.isPlainObject(value)) {
+      const encoded: Record<string, any> = {};
+      Reflect.ownKeys(value).forEach(key => {
+        const item = value[key];
+        if (item === undefined) {
+          return;
+        }
+        const name = typeof key === 'symbol' ? QuerySerializer.encodeOperator(key, path) : key;
+        encoded[name] = QuerySerializer.encode(item, path ? `${path}.${String(name)}` : name);
+      });
+      return encoded;
+    }
+
+    throw QuerySerializer.unserializable(
+      path,
+      value,
+      value?.constructor?.name ? `instance of ${value.constructor.name}` : typeof value
+    );
+  }
+
+  /**
+   * Decode a value produced by `encode`. `$$op:` keys are only accepted below `operatorPaths`.
+   */
+  public static decode(
+    value: any,
+    resolveModel?: (name: string) => any,
+    requestId?: string,
+    operatorPaths: string[] = [],
+    path: string = ''
+  ): any {
+    if (Array.isArray(value)) {
+      return value.map((item, index) =>
+        QuerySerializer.decode(item, resolveModel, requestId, operatorPaths, `${path}[${index}]`)
+      );
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+
+    const keys = Object.keys(value);
+    if (keys.length === 1 && keys[0] === '$$date') {
+      const date = new Date(value.$$date);
+      if (isNaN(date.getTime())) {
+        throw new ValidationError(
+          `Invalid serialized date "${value.$$date}"`,
+          'INVALID_SERIALIZED_QUERY',
+          undefined,
+          value.$$date,
+          undefined,
+          requestId
+        );
+      }
+      return date;
+    }
+    if (keys.length === 1 && keys[0] === '$$model') {
+      const model = resolveModel?.(value.$$model);
+      if (!model) {
+        throw new ValidationError(
+          `Unknown model "${value.$$model}" in serialized query`,
+          'INVALID_SERIALIZED_QUERY',
+          undefined,
+          value.$$model,
+          undefined,
+          requestId
+        );
+      }
+      return model;
+    }
+
+    const decoded: Record<string | symbol, any> = {};
+    keys.forEach(key => {
+      if (key === '__proto__') {
+        throw new ValidationError(
+          'Serialized query contains a forbidden "__proto__" key',
+          'INVALID_SERIALIZED_QUERY',
+          undefined,
+          key,
+          undefined,
+          requestId
+        );
+      }
+      const keyPath = path ? `${path}.${key}` : key;
+      let name: string | symbol = key;
+      if (key.startsWith(QuerySerializer.OP_PREFIX)) {
+        if (!operatorPaths.some(allowed => path === allowed || path.startsWith(`${allowed}.`))) {
+          throw new ValidationError(
+            `Operator key "${key}" is not allowed at ${path || 'the top level'}`,
+            'INVALID_SERIALIZED_QUERY',
+            keyPath,
+            key,
+            undefined,
+            requestId
+          );
+        }
+        name = QuerySerializer.decodeOperator(key, requestId);
+      }
+      decoded[name] = QuerySerializer.decode(
+        value[key],
+        resolveModel,
+        requestId,
+        operatorPaths,
+        keyPath
+      );
+    });
+    return decoded;
+  }
+
+  /**
+   * Check that a value is plain data: primitives, dates, arrays and plain objects
+   * without symbol keys
+   */
+  public static isPlainData(value: any): boolean {
+    if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+      return true;
+    }
+    if (value instanceof Date) {
+      return true;
+    }
+    if (Array.isArray(value)) {
+      return value.every(item => QuerySerializer.isPlainData(item));
+    }
+    if (typeof value === 'object' && QuerySerializer.isPlainObject(value)) {
+      return (
+        Object.getOwnPropertySymbols(value).length === 0 &&
+        Object.values(value).every(item => QuerySerializer.isPlainData(item))
+      );
+    }
+    return false;
+  }
+
+  private static encodeOperator(key: symbol, path: string): string {
+    const name = Symbol.keyFor(key);
+    if (name === undefined || (Op as unknown as Record<string, symbol>)[name] !== key) {
+      throw QuerySerializer.unserializable(path, key.toString(), 'unknown symbol key');
+    }
+    return `${QuerySerializer.OP_PREFIX}${name}`;
+  }
+
+  private static decodeOperator(key: string, requestId?: string): symbol {
+    const name = key.slice(QuerySerializer.OP_PREFIX.length);
+    const operator = Object.prototype.hasOwnProperty.call(Op, name)
+      ? (Op as unknown as Record<string, symbol>)[name]
+      : undefined;
+    if (!operator) {
+      throw new ValidationError(
+        `Unknown operator "${name}" in serialized query`,
+        'INVALID_SERIALIZED_QUERY',
+        undefined,
+        key,
+        undefined,
+        requestId
+      );
+    }
+    return operator;
+  }
+
+  private static isPlainObject(value: object): boolean {
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+  }
+
+  private static unserializable(path: string, value: any, reason: string): ValidationError {
+    return new ValidationError(
+      `Cannot serialize ${path || 'value'}: ${reason}`,
+      'UNSERIALIZABLE_QUERY',
+      path || undefined,
+      value
+    );
+  }
+}
@@ -0,0 +1,359 @@
+import { FilterCondition, FilterGroup, FilterOperator } from '../types/FilterTypes';
+import { FilterProcessor } from './FilterProcessor';
+import { ValidationError } from '../errors/ValidationError';
+
+export interface QueryStringFilterParserOptions {
+  rootParam?: string;
+  listSeparator?: string;
+  maxDepth?: number;
+}
+
+const LIST_OPERATORS: FilterOperator[] = [
+  'in',
+  'notIn',
+  'overlap',
+  'arrayContains',
+  'arrayContainedBy',
+];
+const RANGE_OPERATORS: FilterOperator[] = ['between', 'notBetween'];
+const LOGICAL_KEYS = ['and', 'or'];
+const FORBIDDEN_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+const BOOLEAN_TOKENS = new Map<string, boolean | null>([
+  ['null', null],
+  ['true', true],
+  ['false', false],
+]);
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+/**
+ * Parses bracket-syntax filters into FilterGroup trees, e.g.
+ * `filter[price][gte]=10&filter[status][in]=a,b&filter[or][0][name][contains]=x`.
+ *
+ * Accepts either the raw query string or the nested object produced by `qs`
+ * (Express `req.query`). A bare `filter[field]=value` is an equality check and a
+ * repeated one becomes `in`.
+ */
+export class QueryStringFilterParser {
+  private rootParam: string;
+  private listSeparator: string;
+  private maxDepth: number;
+  private requestId: string | undefined;
+
+  constructor(options: QueryStringFilterParserOptions = {}, requestId?: string) {
+    this.rootParam = options.rootParam || 'filter';
+    this.listSeparator = options.listSeparator || ',';
+    this.maxDepth = options.maxDepth || 10;
+    this.requestId = requestId;
+  }
+
+  /**
+   * Parse a raw query string or a parsed query object
+   */
+  public parse(query: string | Record<string, any>): FilterGroup {
+    const parsed = typeof query === 'string' ? this.parseQueryString(query) : query;
+    const root = parsed?.[this.rootParam];
+
+    if (root === undefined) {
+      return { operator: 'and', conditions: [] };
+    }
+
+    return this.parseFilterObject(root);
+  }
+
+  /**
+   * Parse the value of the root filter parameter
+   */
+  public parseFilterObject(filter: any): FilterGroup {
+    const errors: ValidationError[] = [];
+    const group = this.parseGroup('and', filter, [this.rootParam], errors, 0);
+
+    if (errors.length > 0) {
+      const [first] = errors as [ValidationError];
+      throw new ValidationError(
+        errors.length === 1 ? first.message : `${first.message} (and ${errors.length - 1} more)`,
+        first.code,
+        first.field,
+        first.value,
+        {
+          errors: errors.map(error => ({
+            path: error.field,
+            code: error.code,
+            message: error.message,
+          })),
+          supportedOperators: FilterProcessor.comparisonOperators,
+        },
+        this.requestId
+      );
+    }
+
+    return group;
+  }
+
+  /**
+   * Build a nested object from bracket-syntax query parameters. Nodes have no prototype,
+   * and `__proto__`, `constructor` and `prototype` segments are rejected.
+   */
+  public parseQueryString(query: string): Record<string, any> {
+    const result: Record<string, any> = Object.create(null);
+    const params = new URLSearchParams(query.startsWith('?') ? query.slice(1) : query);
+
+    params.forEach((value, key) => {
+      const match = /^([^[\]]+)((?:\[[^[\]]*\])*)$/.exec(key);
+      if (!match) return;
+
+      const segments = [
+        match[1] as string,
+        ...Array.from((match[2] || '').matchAll(/\[([^[\]]*)\]/g), m => m[1] as string),
+      ];
+
+      if (segments.some(segment => FORBIDDEN_SEGMENTS.includes(segment))) {
+        throw new ValidationError(
+          `Forbidden segment in filter parameter "${key}"`,
+          'INVALID_FILTER_FIELD',
+          key,
+          value,
+          undefined,
+          this.requestId
+        );
+      }
+
+      let node: any = result;
+      segments.forEach((segment, index) => {
+        const isLast = index === segments.length - 1;
+        if (isLast) {
+          if (node[segment] === undefined) {
+            node[segment] = value;
+          } else if (Array.isArray(node[segment])) {
+            node[segment].push(value);
+          } else if (typeof node[segment] === 'string') {
+            node[segment] = [node[segment], value];
+          }
+          return;
+        }
+
+        if (node[segment] === undefined || typeof node[segment] !== 'object') {
+          node[segment] = Object.create(null);
+        }
+        node = node[segment];
+      });
+    });
+
+    return result;
+  }
+
+  private parseGroup(
+    operator: 'and' | 'or',
+    node: any,
+    path: string[],
+    errors: ValidationError[],
+    depth: number
+  ): FilterGroup {
+    const group: FilterGroup = { operator, conditions: [] };
+
+    if (depth > this.maxDepth) {
+      errors.push(
+        this.error(
+          `Filter nesting exceeds ${this.maxDepth} levels`,
+          'FILTER_TOO_DEEP',
+          path,
+          undefined
+        )
+      );
+      return group;
+    }
+
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      errors.push(this.error('Filter must be an object', 'INVALID_FILTER', path, node));
+      return group;
+    }
+
+    Object.entries(node).forEach(([key, value]) => {
+      const keyPath = [...path, key];
+
+      if (LOGICAL_KEYS.includes(key)) {
+        const members = Array.isArray(value) ? value : Object.values(value ?? {});
+        const nested: FilterGroup = { operator: key as 'and' | 'or', conditions: [] };
+
+        if (!value || typeof value !== 'object' || members.length === 0) {
+          errors.push(
+            this.error(
+              `Logical "${key}" filter must contain at least one group`,
+              'INVALID_FILTER_GROUP',
+              keyPath,
+              value
+            )
+          );
+          return;
+        }
+
+        const keys = Array.isArray(value)
+          ? members.map((_, index) => String(index))
+          : Object.keys(value);
+        members.forEach((member, index) => {
+          nested.conditions.push(
+            this.parseGroup('and', member, [...keyPath, keys[index] as string], errors, depth + 1)
+          );
+        });
+        group.conditions.push(nested);
+        return;
+      }
+
+      if (!FIELD_PATTERN.test(key)) {
+        errors.push(
+          this.error(`Invalid filter field "${key}"`, 'INVALID_FILTER_FIELD', keyPath, key)
+        );
+        return;
+      }
+
+      group.conditions.push(...this.parseField(key, value, keyPath, errors));
+    });
+
+    return group;
+  }
+
+  private parseField(
+    field: string,
+    value: any,
+    path: string[],
+    errors: ValidationError[]
+  ): FilterCondition[] {
+    if (typeof value === 'string') {
+      return [{ field, operator: 'eq', value }];
+    }
+
+    if (Array.isArray(value)) {
+      return [{ field, operator: 'in', value }];
+    }
+
+    if (!value || typeof value !== 'object') {
+      errors.push(
+        this.error(`Invalid value for filter "${field}"`, 'INVALID_FILTER_VALUE', path, value)
+      );
+      return [];
+    }
+
+    const conditions: FilterCondition[] = [];
+    Object.entries(value).forEach(([operator, operand]) => {
+      const operatorPath = [...path, operator];
+
+      if (!FilterProcessor.comparisonOperators.includes(operator as FilterOperator)) {
+        errors.push(
+          this.error(
+            `Unknown filter operator "${operator}"`,
+            'INVALID_FILTER_OPERATOR',
+            operatorPath,
+            operator
+          )
+        );
+        return;
+      }
+
+      const condition = this.buildCondition(
+        field,
+        operator as FilterOperator,
+        operand,
+        operatorPath,
+        errors
+      );
+      if (condition) {
+        conditions.push(condition);
+      }
+    });
+
+    return conditions;
+  }
+
+  private buildCondition(
+    field: string,
+    operator: FilterOperator,
+    operand: any,
+    path: string[],
+    errors: ValidationError[]
+  ): FilterCondition | null {
+    if (operand !== null && typeof operand === 'object' && !Array.isArray(operand)) {
+      errors.push(
+        this.error(
+          `Filter operator "${operator}" expects a scalar or list value`,
+          'INVALID_FILTER_VALUE',
+          path,
+          operand
+        )
+      );
+      return null;
+    }
+
+    if (LIST_OPERATORS.includes(operator)) {
+      return { field, operator, value: this.toList(operand) };
+    }
+
+    if (RANGE_OPERATORS.includes(operator)) {
+      const range = this.toList(operand);
+      if (range.length !== 2) {
+        errors.push(
+          this.error(
+            `Filter operator "${operator}" expects exactly two values`,
+            'INVALID_FILTER_VALUE',
+            path,
+            operand
+          )
+        );
+        return null;
+      }
+      return { field, operator, value: range };
+    }
+
+    if (operator === 'is' || operator === 'isNot') {
+      if (typeof operand !== 'string' || !BOOLEAN_TOKENS.has(operand)) {
+        errors.push(
+          this.error(
+            `Filter operator "${operator}" expects null, true or false`,
+            'INVALID_FILTER_VALUE',
+            path,
+            operand
+          )
+        );
+        return null;
+      }
+      return { field, operator, value: BOOLEAN_TOKENS.get(operand) };
+    }
+
+    if (Array.isArray(operand)) {
+      errors.push(
+        this.error(
+          `Filter operator "${operator}" expects a single value`,
+          'INVALID_FILTER_VALUE',
+          path,
+          operand
+        )
+      );
+      return null;
+    }
+
+    return { field, operator, value: operand };
+  }
+
+  private toList(value: any): any[] {
+    if (Array.isArray(value)) {
+      return value.flatMap(item =>
+        typeof item === 'string' ? item.split(this.listSeparator) : [item]
+      );
+    }
+    return typeof value === 'string' ? value.split(this.listSeparator) : [value];
+  }
+
+  private error(message: string, code: string, path: string[], value: any): ValidationError {
+    return new ValidationError(
+      message,
+      code,
+      this.formatPath(path),
+      value,
+      undefined,
+      this.requestId
+    );
+  }
+
+  private formatPath(path: string[]): string {
+    const [root, ...rest] = path;
+    return `${root}${rest.map(segment => `[${segment}]`).join('')}`;
+  }
+}
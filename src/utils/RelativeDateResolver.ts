@@ -0,0 +1,364 @@
+import { FilterCondition, FilterGroup, FilterOperator } from '../types/FilterTypes';
+import { ValidationError } from '../errors/ValidationError';
+
+export interface RelativeDateResolverOptions {
+  timeZone?: string;
+  clock?: () => Date;
+  weekStartsOn?: 0 | 1;
+}
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+  endInclusive: boolean;
+}
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+interface Duration {
+  years: number;
+  months: number;
+  days: number;
+  milliseconds: number;
+}
+
+type CalendarUnit = 'days' | 'weeks' | 'months' | 'quarters' | 'years';
+
+const PERIOD_PATTERN = /^(this|previous|last|next)_(week|month|quarter|year)$/;
+const ROLLING_PATTERN = /^(last|next)_(\d+)_(minutes|hours|days|weeks|months|quarters|years)$/;
+const DURATION_PATTERN =
+  /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+
+/**
+ * Resolves relative date expressions (`today`, `this_month`, `previous_quarter`,
+ * `last_7_days`, ISO-8601 durations such as `P30D`) into concrete ranges.
+ *
+ * Calendar boundaries are computed on the wall clock of an IANA time zone, so a day
+ * that starts or ends at a DST transition still covers exactly that local day. Calendar
+ * ranges are half-open (`[start, end)`); durations run from `now - duration` up to now.
+ */
+export class RelativeDateResolver {
+  /**
+   * Filter operators resolved through this class
+   */
+  public static readonly operators: FilterOperator[] = ['within', 'notWithin', 'before', 'after'];
+
+  private timeZone: string;
+  private clock: () => Date;
+  private weekStartsOn: 0 | 1;
+  private formatters = new Map<string, Intl.DateTimeFormat>();
+
+  constructor(options: RelativeDateResolverOptions = {}) {
+    this.timeZone = RelativeDateResolver.checkTimeZone(options.timeZone || 'UTC');
+    this.clock = options.clock || (() => new Date());
+    this.weekStartsOn = options.weekStartsOn ?? 1;
+  }
+
+  /**
+   * Check whether an expression can be resolved
+   */
+  public static isExpression(expression: string): boolean {
+    return (
+      ['today', 'yesterday', 'tomorrow'].includes(expression) ||
+      PERIOD_PATTERN.test(expression) ||
+      ROLLING_PATTERN.test(expression) ||
+      (DURATION_PATTERN.test(expression) && expression !== 'P' && !expression.endsWith('T'))
+    );
+  }
+
+  /**
+   * Resolve an expression into a date range in the given (or default) time zone
+   */
+  public resolve(expression: string, timeZone?: string): DateRange {
+    const zone = timeZone ? RelativeDateResolver.checkTimeZone(timeZone) : this.timeZone;
+    const now = this.clock();
+    const text = String(expression).trim();
+
+    if (!RelativeDateResolver.isExpression(text)) {
+      throw new ValidationError(
+        `Unknown relative date expression "${text}"`,
+        'INVALID_DATE_EXPRESSION',
+        undefined,
+        expression
+      );
+    }
+
+    const today = this.startOfDay(this.toWallClock(now, zone));
+
+    switch (text) {
+      case 'today':
+        return this.calendarRange(today, 'days', 1, zone);
+      case 'yesterday':
+        return this.calendarRange(this.shift(today, 'days', -1), 'days', 1, zone);
+      case 'tomorrow':
+        return this.calendarRange(this.shift(today, 'days', 1), 'days', 1, zone);
+    }
+
+    const period = PERIOD_PATTERN.exec(text);
+    if (period) {
+      const [, which, unit] = period as unknown as [string, string, string];
+      const start = this.startOfPeriod(today, unit);
+      const units = `${unit}s` as CalendarUnit;
+      const offset = which === 'this' ? 0 : which === 'next' ? 1 : -1;
+      return this.calendarRange(this.shift(start, units, offset), units, 1, zone);
+    }
+
+    const rolling = ROLLING_PATTERN.exec(text);
+    if (rolling) {
+      const [, direction, count, unit] = rolling as unknown as [string, string, string, string];
+      const amount = Number(count);
+
+      if (unit === 'minutes' || unit === 'hours') {
+        const milliseconds = amount * (unit === 'hours' ? 3600000 : 60000);
+        return direction === 'last'
+          ? { start: new Date(now.getTime() - milliseconds), end: now, endInclusive: true }
+          : { start: now, end: new Date(now.getTime() + milliseconds), endInclusive: true };
+      }
+
+      // last_N_days covers today and the N - 1 days before it; next_N_days starts today
+      const tomorrow = this.shift(today, 'days', 1);
+      return direction === 'last'
+        ? this.calendarRange(
+            this.shift(tomorrow, unit as CalendarUnit, -amount),
+            unit as CalendarUnit,
+            amount,
+            zone
+          )
+        : this.calendarRange(today, unit as CalendarUnit, amount, zone);
+    }
+
+    const duration = this.parseDuration(text);
+    const wall = this.toWallClock(now, zone);
+    const shifted = this.shiftMonths(wall, -(duration.years * 12 + duration.months));
+    const start = this.fromWallClock(this.shift(shifted, 'days', -duration.days), zone);
+    return {
+      start: new Date(start.getTime() - duration.milliseconds),
+      end: now,
+      endInclusive: true,
+    };
+  }
+
+  /**
+   * Rewrite a date-range operator into `between`/`gte`/`lt`-style conditions
+   */
+  public toConditions(condition: FilterCondition): FilterCondition | FilterGroup {
+    const { field, operator, value } = condition;
+    const options = typeof value === 'object' && value !== null ? value : { range: value };
+    const range = this.resolve(options.range, options.timeZone ?? condition.timeZone);
+    const afterEnd: FilterCondition = {
+      field,
+      operator: range.endInclusive ? 'gt' : 'gte',
+      value: range.end,
+    };
+
+    switch (operator) {
+      case 'within':
+        return range.endInclusive
+          ? { field, operator: 'between', value: [range.start, range.end] }
+          : {
+              operator: 'and',
+              conditions: [
+                { field, operator: 'gte', value: range.start },
+                { field, operator: 'lt', value: range.end },
+              ],
+            };
+      case 'notWithin':
+        return {
+          operator: 'or',
+          conditions: [{ field, operator: 'lt', value: range.start }, afterEnd],
+        };
+      case 'before':
+        return { field, operator: 'lt', value: range.start };
+      case 'after':
+        return afterEnd;
+      default:
+        throw new Error(`Operator '${operator}' is not a date-range operator`);
+    }
+  }
+
+  public setTimeZone(timeZone: string): void {
+    this.timeZone = RelativeDateResolver.checkTimeZone(timeZone);
+  }
+
+  public getTimeZone(): string {
+    return this.timeZone;
+  }
+
+  public setClock(clock: () => Date): void {
+    this.clock = clock;
+  }
+
+  private static checkTimeZone(timeZone: string): string {
+    try {
+      return new Intl.DateTimeFormat('en-US', { timeZone }).resolvedOptions().timeZone;
+    } catch {
+      throw new ValidationError(
+        `Unknown time zone "${timeZone}"`,
+        'INVALID_TIME_ZONE',
+        undefined,
+        timeZone
+      );
+    }
+  }
+
+  private calendarRange(
+    start: WallClock,
+    unit: CalendarUnit,
+    amount: number,
+    zone: string
+  ): DateRange {
+    return {
+      start: this.fromWallClock(start, zone),
+      end: this.fromWallClock(this.shift(start, unit, amount), zone),
+      endInclusive: false,
+    };
+  }
+
+  private startOfDay(wall: WallClock): WallClock {
+    return { ...wall, hour: 0, minute: 0, second: 0, millisecond: 0 };
+  }
+
+  private startOfPeriod(day: WallClock, unit: string): WallClock {
+    switch (unit) {
+      case 'week': {
+        const weekday = new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+        return this.shift(day, 'days', -((weekday - this.weekStartsOn + 7) % 7));
+      }
+      case 'month':
+        return { ...day, day: 1 };
+      case 'quarter':
+        return { ...day, month: Math.floor((day.month - 1) / 3) * 3 + 1, day: 1 };
+      default:
+        return { ...day, month: 1, day: 1 };
+    }
+  }
+
+  private shift(wall: WallClock, unit: CalendarUnit, amount: number): WallClock {
+    switch (unit) {
+      case 'days':
+      case 'weeks': {
+        const date = new Date(
+          Date.UTC(wall.year, wall.month - 1, wall.day + amount * (unit === 'weeks' ? 7 : 1))
+        );
+        return {
+          ...wall,
+          year: date.getUTCFullYear(),
+          month: date.getUTCMonth() + 1,
+          day: date.getUTCDate(),
+        };
+      }
+      case 'months':
+        return this.shiftMonths(wall, amount);
+      case 'quarters':
+        return this.shiftMonths(wall, amount * 3);
+      default:
+        return this.shiftMonths(wall, amount * 12);
+    }
+  }
+
+  /**
+   * Move by whole months, clamping the day to the end of shorter months
+   */
+  private shiftMonths(wall: WallClock, amount: number): WallClock {
+    const index = wall.year * 12 + (wall.month - 1) + amount;
+    const year = Math.floor(index / 12);
+    const month = index - year * 12 + 1;
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return { ...wall, year, month, day: Math.min(wall.day, lastDay) };
+  }
+
+  private parseDuration(text: string): Duration {
+    const [, years, months, weeks, days, hours, minutes, seconds] = DURATION_PATTERN.exec(
+      text
+    ) as RegExpExecArray;
+    const number = (part: string | undefined) => (part ? Number(part) : 0);
+
+    return {
+      years: number(years),
+      months: number(months),
+      days: number(weeks) * 7 + number(days),
+      milliseconds: Math.round(
+        (number(hours) * 3600 + number(minutes) * 60 + number(seconds)) * 1000
+      ),
+    };
+  }
+
+  private toWallClock(date: Date, zone: string): WallClock {
+    const parts: Record<string, number> = {};
+    this.formatter(zone)
+      .formatToParts(date)
+      .forEach(part => {
+        if (part.type !== 'literal') {
+          parts[part.type] = Number(part.value);
+        }
+      });
+
+    return {
+      year: parts['year'] as number,
+      month: parts['month'] as number,
+      day: parts['day'] as number,
+      hour: parts['hour'] as number,
+      minute: parts['minute'] as number,
+      second: parts['second'] as number,
+      millisecond: date.getUTCMilliseconds(),
+    };
+  }
+
+  /**
+   * Convert a wall-clock time in a zone to an instant. Times skipped by a DST gap move
+   * forward past the gap; times repeated by a DST overlap resolve to the earlier instant.
+   */
+  private fromWallClock(wall: WallClock, zone: string): Date {
+    const local = this.toUtcMillis(wall);
+    const offsets = [this.offsetAt(local - 86400000, zone), this.offsetAt(local + 86400000, zone)];
+    const candidates = offsets
+      .map(offset => local - offset)
+      .filter(time => this.toUtcMillis(this.toWallClock(new Date(time), zone)) === local)
+      .sort((a, b) => a - b);
+
+    return new Date(candidates[0] ?? local - (offsets[0] as number));
+  }
+
+  private offsetAt(time: number, zone: string): number {
+    const date = new Date(time);
+    return this.toUtcMillis(this.toWallClock(date, zone)) - time;
+  }
+
+  private toUtcMillis(wall: WallClock): number {
+    return Date.UTC(
+      wall.year,
+      wall.month - 1,
+      wall.day,
+      wall.hour,
+      wall.minute,
+      wall.second,
+      wall.millisecond
+    );
+  }
+
+  private formatter(zone: string): Intl.DateTimeFormat {
+    let formatter = this.formatters.get(zone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: zone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+      this.formatters.set(zone, formatter);
+    }
+    return formatter;
+  }
+}
@@ -0,0 +1,354 @@
+import { FilterCondition, FilterGroup, FilterOperator, FilterSchema } from '../types/FilterTypes';
+import { DialectCapabilities } from './DialectCapabilities';
+import { ValidationUtils } from './ValidationUtils';
+import { ValidationError } from '../errors/ValidationError';
+
+/**
+ * RSQL/FIQL comparison operators and the FilterOperator they map to
+ */
+export const RSQL_OPERATORS: Record<string, FilterOperator> = {
+  '==': 'eq',
+  '!=': 'ne',
+  '=gt=': 'gt',
+  '>': 'gt',
+  '=ge=': 'gte',
+  '>=': 'gte',
+  '=lt=': 'lt',
+  '<': 'lt',
+  '=le=': 'lte',
+  '<=': 'lte',
+  '=in=': 'in',
+  '=out=': 'notIn',
+  '=like=': 'like',
+  '=notlike=': 'notLike',
+  '=ilike=': 'iLike',
+  '=between=': 'between',
+  '=notbetween=': 'notBetween',
+  '=re=': 'regexp',
+  '=isnull=': 'is',
+};
+
+/**
+ * An argument value, with `pieces` holding the text between unquoted `*` wildcards
+ */
+interface RsqlValue {
+  text: string;
+  pieces: string[];
+}
+
+const MULTI_VALUE_OPERATORS: FilterOperator[] = ['in', 'notIn', 'between', 'notBetween'];
+const RESERVED_CHARACTERS = `"'();,=!~<> \t\r\n`;
+
+/**
+ * Recursive-descent parser for RSQL/FIQL filter expressions, e.g.
+ * `name==John*;age=gt=30,status=in=(a,b)`.
+ *
+ * `;` (AND) binds tighter than `,` (OR) and parentheses group. In `==`/`!=`
+ * arguments an unquoted `*` is a wildcard: `John*` becomes `startsWith`, `*son` becomes
+ * `endsWith` and `*oh*` becomes `contains`. Inside quotes `*` is literal, and quoted and
+ * unquoted parts of a value are joined, so `"John Smith"*` matches a literal prefix.
+ */
+export class RsqlParser {
+  private schema: FilterSchema;
+  private requestId: string | undefined;
+  private input: string = '';
+  private position: number = 0;
+
+  constructor(schema: FilterSchema = {}, requestId?: string) {
+    this.schema = schema;
+    this.requestId = requestId;
+  }
+
+  /**
+   * Parse an RSQL expression into a filter group
+   */
+  public parse(expression: string): FilterGroup {
+    this.input = expression;
+    this.position = 0;
+
+    this.skipWhitespace();
+    if (this.position >= this.input.length) {
+      throw this.error('RSQL expression is empty');
+    }
+
+    const node = this.parseOr();
+    this.skipWhitespace();
+    if (this.position < this.input.length) {
+      throw this.error(`Unexpected character "${this.input[this.position]}"`);
+    }
+
+    return 'conditions' in node ? node : { operator: 'and', conditions: [node] };
+  }
+
+  private parseOr(): FilterCondition | FilterGroup {
+    const nodes = [this.parseAnd()];
+    while (this.consume(',')) {
+      nodes.push(this.parseAnd());
+    }
+    return nodes.length === 1
+      ? (nodes[0] as FilterCondition | FilterGroup)
+      : { operator: 'or', conditions: nodes };
+  }
+
+  private parseAnd(): FilterCondition | FilterGroup {
+    const nodes = [this.parseConstraint()];
+    while (this.consume(';')) {
+      nodes.push(this.parseConstraint());
+    }
+    return nodes.length === 1
+      ? (nodes[0] as FilterCondition | FilterGroup)
+      : { operator: 'and', conditions: nodes };
+  }
+
+  private parseConstraint(): FilterCondition | FilterGroup {
+    this.skipWhitespace();
+    if (this.consume('(')) {
+      const node = this.parseOr();
+      if (!this.consume(')')) {
+        throw this.error('Expected ")"');
+      }
+      return node;
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): FilterCondition {
+    this.skipWhitespace();
+    const selectorStart = this.position;
+    const field = this.readUnreserved();
+    if (!field) {
+      throw this.error('Expected a field name');
+    }
+
+    const operatorStart = this.position;
+    const symbol = this.readOperator();
+    if (!symbol) {
+      throw this.error('Expected a comparison operator');
+    }
+
+    const operator = RSQL_OPERATORS[symbol.toLowerCase()];
+    if (!operator) {
+      throw this.error(`Unknown operator "${symbol}"`, operatorStart, 'RSQL_UNKNOWN_OPERATOR');
+    }
+
+    const values = this.readArguments();
+    const condition = this.buildCondition(field, operator, values, operatorStart);
+    this.checkSchema(condition, selectorStart, operatorStart);
+
+    return condition;
+  }
+
+  private buildCondition(
+    field: string,
+    operator: FilterOperator,
+    values: RsqlValue[],
+    operatorStart: number
+  ): FilterCondition {
+    if (MULTI_VALUE_OPERATORS.includes(operator)) {
+      if ((operator === 'between' || operator === 'notBetween') && values.length !== 2) {
+        throw this.error(`Operator "${operator}" expects exactly two values`, operatorStart);
+      }
+      return { field, operator, value: values.map(value => value.text) };
+    }
+
+    if (values.length !== 1) {
+      throw this.error(`Operator "${operator}" expects a single value`, operatorStart);
+    }
+
+    const { text: value, pieces } = values[0] as RsqlValue;
+
+    if (operator === 'is') {
+      const isNull = value.toLowerCase();
+      if (isNull !== 'true' && isNull !== 'false') {
+        throw this.error('Operator "=isnull=" expects true or false', operatorStart);
+      }
+      return { field, operator: isNull === 'true' ? 'is' : 'isNot', value: null };
+    }
+
+    if ((operator === 'eq' || operator === 'ne') && pieces.length > 1) {
+      return this.buildWildcardCondition(field, operator, pieces);
+    }
+
+    return { field, operator, value };
+  }
+
+  private buildWildcardCondition(
+    field: string,
+    operator: 'eq' | 'ne',
+    pieces: string[]
+  ): FilterCondition {
+    const first = pieces[0] as string;
+    const last = pieces[pieces.length - 1] as string;
+
+    if (operator === 'eq' && pieces.length === 2) {
+      return last === ''
+        ? { field, operator: 'startsWith', value: first }
+        : first === ''
+          ? { field, operator: 'endsWith', value: last }
+          : this.buildLikeCondition(field, operator, pieces);
+    }
+    if (operator === 'eq' && pieces.length === 3 && first === '' && last === '') {
+      return { field, operator: 'contains', value: pieces[1] as string };
+    }
+
+    return this.buildLikeCondition(field, operator, pieces);
+  }
+
+  private buildLikeCondition(
+    field: string,
+    operator: 'eq' | 'ne',
+    pieces: string[]
+  ): FilterCondition {
+    const value = pieces.map(DialectCapabilities.escapeLike).join('%');
+    // `==` and `!=` match wildcards the same way; notLike is case-sensitive unless told otherwise
+    return operator === 'eq'
+      ? { field, operator: 'like', value, rawPattern: true }
+      : { field, operator: 'notLike', value, rawPattern: true, caseSensitive: false };
+  }
+
+  private checkSchema(condition: FilterCondition, fieldStart: number, operatorStart: number): void {
+    if (Object.keys(this.schema).length === 0) {
+      return;
+    }
+
+    const fieldSchema = ValidationUtils.getFilterFieldSchema(this.schema, condition.field);
+    if (!fieldSchema) {
+      throw this.error(
+        `Field "${condition.field}" is not filterable`,
+        fieldStart,
+        'FIELD_NOT_ALLOWED'
+      );
+    }
+
+    if (!fieldSchema.operators.includes(condition.operator)) {
+      throw this.error(
+        `Operator "${condition.operator}" is not allowed for field "${condition.field}"`,
+        operatorStart,
+        'OPERATOR_NOT_ALLOWED'
+      );
+    }
+  }
+
+  private readArguments(): RsqlValue[] {
+    this.skipWhitespace();
+    if (!this.consume('(')) {
+      return [this.readValue()];
+    }
+
+    const values = [this.readValue()];
+    while (this.consume(',')) {
+      values.push(this.readValue());
+    }
+    if (!this.consume(')')) {
+      throw this.error('Expected ")" to close the value list');
+    }
+    return values;
+  }
+
+  private readValue(): RsqlValue {
+    this.skipWhitespace();
+    const start = this.position;
+    const value: RsqlValue = { text: '', pieces: [''] };
+    const append = (text: string) => {
+      value.text += text;
+      value.pieces[value.pieces.length - 1] += text;
+    };
+
+    while (this.position < this.input.length) {
+      const quote = this.input[this.position];
+      if (quote === '"' || quote === "'") {
+        append(this.readQuoted(quote));
+        continue;
+      }
+
+      const unquoted = this.readUnreserved();
+      if (!unquoted) {
+        break;
+      }
+      unquoted.split('*').forEach((text, index) => {
+        if (index > 0) {
+          value.text += '*';
+          value.pieces.push('');
+        }
+        append(text);
+      });
+    }
+
+    if (this.position === start) {
+      throw this.error('Expected a value');
+    }
+    return value;
+  }
+
+  private readQuoted(quote: string): string {
+    const start = this.position;
+    this.position++;
+    let value = '';
+    while (this.position < this.input.length) {
+      const char = this.input[this.position] as string;
+      if (char === '\\' && this.position + 1 < this.input.length) {
+        value += this.input[this.position + 1];
+        this.position += 2;
+        continue;
+      }
+      if (char === quote) {
+        this.position++;
+        return value;
+      }
+      value += char;
+      this.position++;
+    }
+    throw this.error('Unterminated quoted value', start);
+  }
+
+  private readOperator(): string {
+    const rest = this.input.slice(this.position);
+    const match = /^(=[a-z]*=|!=|==|>=|<=|>|<)/i.exec(rest);
+    if (!match) {
+      return '';
+    }
+    this.position += (match[1] as string).length;
+    return match[1] as string;
+  }
+
+  private readUnreserved(): string {
+    const start = this.position;
+    while (
+      this.position < this.input.length &&
+      !RESERVED_CHARACTERS.includes(this.input[this.position] as string)
+    ) {
+      this.position++;
+    }
+    return this.input.slice(start, this.position);
+  }
+
+  private consume(char: string): boolean {
+    this.skipWhitespace();
+    if (this.input[this.position] === char) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.input[this.position] || '')) {
+      this.position++;
+    }
+  }
+
+  private error(
+    message: string,
+    offset: number = this.position,
+    code: string = 'RSQL_PARSE_ERROR'
+  ): ValidationError {
+    return new ValidationError(
+      `${message} at position ${offset}`,
+      code,
+      'filter',
+      this.input,
+      { offset, expression: this.input },
+      this.requestId
+    );
+  }
+}
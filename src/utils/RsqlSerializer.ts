@@ -0,0 +1,160 @@
+import { FilterCondition, FilterGroup, FilterOperator } from '../types/FilterTypes';
+import { ValidationError } from '../errors/ValidationError';
+
+const OPERATOR_SYMBOLS: Partial<Record<FilterOperator, string>> = {
+  eq: '==',
+  ne: '!=',
+  gt: '=gt=',
+  gte: '=ge=',
+  lt: '=lt=',
+  lte: '=le=',
+  in: '=in=',
+  notIn: '=out=',
+  like: '=like=',
+  notLike: '=notlike=',
+  iLike: '=ilike=',
+  between: '=between=',
+  notBetween: '=notbetween=',
+  regexp: '=re=',
+};
+
+const PATTERN_OPERATORS: FilterOperator[] = ['like', 'notLike', 'iLike', 'notILike'];
+
+const RESERVED_PATTERN = /["'();,=!~<>\s*]/;
+
+/**
+ * Serializes filter conditions and groups back into RSQL expressions
+ */
+export class RsqlSerializer {
+  /**
+   * Serialize a condition, group or AND-ed list of conditions
+   */
+  public serialize(filters: FilterCondition | FilterGroup | FilterCondition[]): string {
+    if (Array.isArray(filters)) {
+      return this.serializeGroup({ operator: 'and', conditions: filters }, false);
+    }
+    if ('conditions' in filters) {
+      return this.serializeGroup(filters, false);
+    }
+    return this.serializeCondition(filters);
+  }
+
+  private serializeGroup(group: FilterGroup, nested: boolean): string {
+    const parts = group.conditions
+      .map(condition =>
+        'conditions' in condition
+          ? this.serializeGroup(condition, group.operator === 'and')
+          : this.serializeCondition(condition)
+      )
+      .filter(part => part.length > 0);
+
+    const expression = parts.join(group.operator === 'and' ? ';' : ',');
+
+    // OR binds looser than AND, so OR groups inside AND groups need parentheses
+    return nested && group.operator === 'or' && parts.length > 1 ? `(${expression})` : expression;
+  }
+
+  private serializeCondition(condition: FilterCondition): string {
+    const { field, operator, value } = condition;
+
+    if (condition.rawPattern && PATTERN_OPERATORS.includes(operator)) {
+      return this.serializePattern(condition);
+    }
+
+    switch (operator) {
+      case 'is':
+      case 'isNot':
+        if (value !== null) break;
+        return `${field}=isnull=${operator === 'is' ? 'true' : 'false'}`;
+      // Only unquoted `*` is a wildcard, and `formatValue` quotes any literal `*`
+      case 'startsWith':
+        return `${field}==${this.formatValue(value)}*`;
+      case 'endsWith':
+        return `${field}==*${this.formatValue(value)}`;
+      case 'contains':
+        return `${field}==*${this.formatValue(value)}*`;
+      default: {
+        const symbol = OPERATOR_SYMBOLS[operator];
+        if (!symbol) break;
+
+        if (Array.isArray(value)) {
+          return `${field}${symbol}(${value.map(item => this.formatValue(item)).join(',')})`;
+        }
+        return `${field}${symbol}${this.formatValue(value)}`;
+      }
+    }
+
+    throw new ValidationError(
+      `Filter operator "${operator}" cannot be expressed in RSQL`,
+      'RSQL_UNSUPPORTED_OPERATOR',
+      field,
+      value,
+      { condition }
+    );
+  }
+
+  /**
+   * Write a raw LIKE pattern with unquoted `*` wildcards and quoted literal parts, as
+   * `RsqlParser` reads `==a*b`. RSQL wildcards match case-insensitively, and `_` has no
+   * RSQL equivalent.
+   */
+  private serializePattern(condition: FilterCondition): string {
+    const { field, operator, value } = condition;
+    const pieces = this.splitPattern(String(value));
+
+    // Without wildcards the pattern is a literal, which =like= and friends escape when parsed
+    if (pieces?.length === 1) {
+      return this.serializeCondition({ ...condition, value: pieces[0], rawPattern: false });
+    }
+
+    const caseSensitive =
+      operator === 'like'
+        ? condition.caseSensitive === true
+        : operator === 'notLike' && condition.caseSensitive !== false;
+    if (!pieces || caseSensitive) {
+      throw new ValidationError(
+        `LIKE pattern "${value}" cannot be expressed in RSQL`,
+        'RSQL_UNSUPPORTED_OPERATOR',
+        field,
+        value,
+        { condition }
+      );
+    }
+
+    const negated = operator === 'notLike' || operator === 'notILike';
+    const text = pieces.map(piece => (piece === '' ? '' : this.formatValue(piece))).join('*');
+    return `${field}${negated ? '!=' : '=='}${text}`;
+  }
+
+  /**
+   * Split a LIKE pattern on its unescaped `%` wildcards and unescape the literal parts.
+   * Returns undefined for patterns that use the single-character `_` wildcard.
+   */
+  private splitPattern(pattern: string): string[] | undefined {
+    const pieces: string[] = [];
+    let current = '';
+    for (let index = 0; index < pattern.length; index++) {
+      const char = pattern[index] as string;
+      if (char === '\\' && index + 1 < pattern.length) {
+        current += pattern[++index];
+      } else if (char === '%') {
+        pieces.push(current);
+        current = '';
+      } else if (char === '_') {
+        return undefined;
+      } else {
+        current += char;
+      }
+    }
+    pieces.push(current);
+    return pieces;
+  }
+
+  private formatValue(value: any): string {
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    if (text.length > 0 && !RESERVED_PATTERN.test(text)) {
+      return text;
+    }
+    return `"${text.replace(/(["\\])/g, '\\$1')}"`;
+  }
+}
@@ -0,0 +1,245 @@
+import { FilterOperator, FilterSchema } from '../types/FilterTypes';
+import { SortSchema } from '../types/SortTypes';
+
+export interface SchemaGeneratorOptions {
+  exclude?: string[];
+  sensitivePattern?: RegExp | null;
+  associationDepth?: number;
+  filterOverrides?: Record<string, Partial<FilterSchema[string]> | false>;
+  sortOverrides?: Record<string, Partial<SortSchema[string]> | false>;
+}
+
+export interface GeneratedSchemas {
+  filterSchema: FilterSchema;
+  sortSchema: SortSchema;
+}
+
+type FieldSchema = FilterSchema[string];
+
+const SENSITIVE_PATTERN = /password|secret|token|salt/i;
+
+const STRING_TYPES = ['STRING', 'TEXT', 'CHAR', 'CITEXT', 'TSVECTOR', 'TIME'];
+const NUMBER_TYPES = [
+  'INTEGER',
+  'BIGINT',
+  'SMALLINT',
+  'MEDIUMINT',
+  'TINYINT',
+  'FLOAT',
+  'DOUBLE',
+  'REAL',
+  'DECIMAL',
+  'NUMBER',
+];
+const DATE_TYPES = ['DATE', 'DATEONLY'];
+const JSON_TYPES = ['JSON', 'JSONB'];
+const IDENTIFIER_TYPES = ['UUID', 'UUIDV1', 'UUIDV4'];
+
+const EQUALITY_OPERATORS: FilterOperator[] = ['eq', 'ne', 'in', 'notIn'];
+const RANGE_OPERATORS: FilterOperator[] = [
+  ...EQUALITY_OPERATORS,
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'between',
+  'notBetween',
+];
+
+/**
+ * Derives default `FilterSchema` and `SortSchema` objects from a Sequelize model's
+ * attributes (data type, `allowNull`, enum values, `validate` rules) and associations.
+ *
+ * Associated models contribute dotted `alias.field` filter entries, which resolve to
+ * filter-only includes. Columns excluded by the default scope, matching the sensitive
+ * name pattern or listed in `exclude` are left out of both schemas.
+ */
+export class SchemaGenerator {
+  private exclude: string[];
+  private sensitivePattern: RegExp | null;
+  private associationDepth: number;
+  private filterOverrides: Record<string, Partial<FieldSchema> | false>;
+  private sortOverrides: Record<string, Partial<SortSchema[string]> | false>;
+
+  constructor(options: SchemaGeneratorOptions = {}) {
+    this.exclude = options.exclude || [];
+    this.sensitivePattern =
+      options.sensitivePattern === undefined ? SENSITIVE_PATTERN : options.sensitivePattern;
+    this.associationDepth = options.associationDepth ?? 1;
+    this.filterOverrides = options.filterOverrides || {};
+    this.sortOverrides = options.sortOverrides || {};
+  }
+
+  /**
+   * Generate both schemas for a model
+   */
+  public generate(model: any): GeneratedSchemas {
+    return {
+      filterSchema: this.generateFilterSchema(model),
+      sortSchema: this.generateSortSchema(model),
+    };
+  }
+
+  /**
+   * Generate a FilterSchema with default operators per attribute type
+   */
+  public generateFilterSchema(model: any): FilterSchema {
+    const schema: FilterSchema = {};
+    this.collectFilterFields(model, '', this.associationDepth, schema);
+    return this.applyOverrides(schema, this.filterOverrides) as FilterSchema;
+  }
+
+  /**
+   * Generate a SortSchema allowing every scalar attribute of the model
+   */
+  public generateSortSchema(model: any): SortSchema {
+    const schema: SortSchema = {};
+
+    this.getAttributes(model, '').forEach(([name, attribute]) => {
+      const field = this.toFieldSchema(attribute);
+      if (field && field.type !== 'object' && field.type !== 'array') {
+        schema[name] = { allowed: true };
+      }
+    });
+
+    return this.applyOverrides(schema, this.sortOverrides) as SortSchema;
+  }
+
+  private collectFilterFields(
+    model: any,
+    prefix: string,
+    depth: number,
+    schema: FilterSchema
+  ): void {
+    this.getAttributes(model, prefix).forEach(([name, attribute]) => {
+      const field = this.toFieldSchema(attribute);
+      if (field) {
+        schema[`${prefix}${name}`] = field;
+      }
+    });
+
+    if (depth <= 0) {
+      return;
+    }
+
+    Object.entries(model?.associations || {}).forEach(([alias, association]: [string, any]) => {
+      const path = `${prefix}${alias}`;
+      if (!this.isExcluded(path) && association?.target) {
+        this.collectFilterFields(association.target, `${path}.`, depth - 1, schema);
+      }
+    });
+  }
+
+  private getAttributes(model: any, prefix: string): [string, any][] {
+    const attributes = model?.getAttributes?.() || model?.rawAttributes || {};
+    const hidden: string[] = model?.options?.defaultScope?.attributes?.exclude || [];
+
+    return Object.entries<any>(attributes).filter(
+      ([name]) => !hidden.includes(name) && !this.isExcluded(`${prefix}${name}`)
+    );
+  }
+
+  private isExcluded(path: string): boolean {
+    const name = path.split('.').pop() as string;
+    return this.exclude.includes(path) || (this.sensitivePattern?.test(name) ?? false);
+  }
+
+  /**
+   * Map an attribute definition to a schema entry, or null when it cannot be filtered
+   */
+  private toFieldSchema(attribute: any): FieldSchema | null {
+    const key: string = attribute?.type?.key || attribute?.type?.constructor?.key || '';
+    const nullable = attribute?.allowNull !== false && !attribute?.primaryKey;
+    const nullOperators: FilterOperator[] = nullable ? ['is', 'isNot'] : [];
+    const enumValues: any[] | undefined =
+      attribute?.values ||
+      attribute?.type?.values ||
+      this.getValidateArgument(attribute, 'isIn')?.[0];
+    let field: FieldSchema;
+
+    if (
+      key === 'ENUM' ||
+      IDENTIFIER_TYPES.includes(key) ||
+      (enumValues && STRING_TYPES.includes(key))
+    ) {
+      field = { type: 'string', operators: [...EQUALITY_OPERATORS, ...nullOperators] };
+    } else if (STRING_TYPES.includes(key)) {
+      field = {
+        type: 'string',
+        operators: [...EQUALITY_OPERATORS, 'contains', 'startsWith', 'endsWith', ...nullOperators],
+      };
+    } else if (NUMBER_TYPES.includes(key)) {
+      field = { type: 'number', operators: [...RANGE_OPERATORS, ...nullOperators] };
+    } else if (key === 'BOOLEAN') {
+      field = { type: 'boolean', operators: ['eq', 'ne', ...nullOperators] };
+    } else if (DATE_TYPES.includes(key)) {
+      field = {
+        type: 'date',
+        operators: [...RANGE_OPERATORS, 'within', 'notWithin', 'before', 'after', ...nullOperators],
+      };
+    } else if (JSON_TYPES.includes(key)) {
+      field = {
+        type: 'object',
+        operators: ['eq', 'jsonHasKey', 'jsonContains', 'jsonArrayContains', ...nullOperators],
+      };
+    } else if (key === 'ARRAY') {
+      field = {
+        type: 'array',
+        operators: [
+          'overlap',
+          'arrayContains',
+          'arrayContainedBy',
+          'arrayLength',
+          ...nullOperators,
+        ],
+      };
+    } else {
+      return null;
+    }
+
+    const validation: NonNullable<FieldSchema['validation']> = {};
+    const [min] = [this.getValidateArgument(attribute, 'min')].flat();
+    const [max] = [this.getValidateArgument(attribute, 'max')].flat();
+    const pattern = this.getValidateArgument(attribute, 'is');
+
+    if (enumValues) {
+      validation.enum = [...enumValues];
+    }
+    if (typeof min === 'number') {
+      validation.min = min;
+    }
+    if (typeof max === 'number') {
+      validation.max = max;
+    }
+    if (pattern instanceof RegExp || typeof pattern === 'string') {
+      validation.pattern = pattern instanceof RegExp ? pattern.source : pattern;
+    }
+
+    return Object.keys(validation).length > 0 ? { ...field, validation } : field;
+  }
+
+  /**
+   * Read a `validate` rule, which is either the bare argument or `{ args, msg }`
+   */
+  private getValidateArgument(attribute: any, rule: string): any {
+    const value = attribute?.validate?.[rule];
+    if (value !== null && typeof value === 'object' && !Array.isArray(value) && 'args' in value) {
+      return value.args;
+    }
+    return value;
+  }
+
+  private applyOverrides<T extends Record<string, any>>(
+    schema: T,
+    overrides: Record<string, Partial<T[string]> | false>
+  ): T {
+    Object.entries(overrides).forEach(([field, override]) => {
+      if (override === false) {
+        delete schema[field];
+      } else {
+        (schema as Record<string, any>)[field] = { ...schema[field], ...override };
+      }
+    });
+    return schema;
+  }
+}
@@ -0,0 +1,228 @@
+import { Op, col, fn, literal, where } from 'sequelize';
+import { ParsedSearchQuery, SearchContext, SearchProvider } from '../types/SearchTypes';
+import { DialectCapabilities } from './DialectCapabilities';
+import { ValidationError } from '../errors/ValidationError';
+
+/**
+ * Qualify a column with the model alias so it stays unambiguous next to includes
+ */
+function qualify(field: string, context: SearchContext): string {
+  return context.model?.name && !field.includes('.') ? `${context.model.name}.${field}` : field;
+}
+
+function requireSequelize(provider: string, context: SearchContext): any {
+  if (!context.sequelize) {
+    throw new Error(`Search provider '${provider}' needs the model's Sequelize instance`);
+  }
+  return context.sequelize;
+}
+
+function quoteColumn(sequelize: any, field: string): string {
+  return sequelize.getQueryInterface().quoteIdentifiers(field);
+}
+
+/**
+ * PostgreSQL full-text search with `to_tsvector` / `websearch_to_tsquery` and `ts_rank`
+ */
+export class PostgresSearchProvider implements SearchProvider {
+  public readonly name = 'postgres';
+  private config: string;
+  private vectorColumn: string | undefined;
+  private normalization: number;
+
+  constructor(options: { config?: string; vectorColumn?: string; normalization?: number } = {}) {
+    this.config = options.config || 'simple';
+    this.vectorColumn = options.vectorColumn;
+    this.normalization = options.normalization ?? 0;
+  }
+
+  public buildWhere(query: ParsedSearchQuery, fields: string[], context: SearchContext): any {
+    return where(this.buildVector(fields, context), '@@', this.buildTsQuery(query));
+  }
+
+  public buildRank(query: ParsedSearchQuery, fields: string[], context: SearchContext): any {
+    return fn(
+      'ts_rank',
+      this.buildVector(fields, context),
+      this.buildTsQuery(query),
+      this.normalization
+    );
+  }
+
+  /**
+   * Write the parsed query in websearch_to_tsquery syntax
+   */
+  public toWebsearch(query: ParsedSearchQuery): string {
+    return [
+      ...query.terms,
+      ...query.phrases.map(phrase => `"${phrase}"`),
+      ...query.excluded.map(term => (term.includes(' ') ? `-"${term}"` : `-${term}`)),
+    ].join(' ');
+  }
+
+  private buildVector(fields: string[], context: SearchContext): any {
+    if (this.vectorColumn) {
+      return col(qualify(this.vectorColumn, context));
+    }
+    return fn(
+      'to_tsvector',
+      this.config,
+      fn('concat_ws', ' ', ...fields.map(field => col(qualify(field, context))))
+    );
+  }
+
+  private buildTsQuery(query: ParsedSearchQuery): any {
+    return fn('websearch_to_tsquery', this.config, this.toWebsearch(query));
+  }
+}
+
+/**
+ * MySQL/MariaDB `MATCH ... AGAINST` in boolean mode; the fields need a FULLTEXT index
+ */
+export class MySqlSearchProvider implements SearchProvider {
+  public readonly name = 'mysql';
+
+  public buildWhere(query: ParsedSearchQuery, fields: string[], context: SearchContext): any {
+    return where(this.buildMatch(query, fields, context), Op.gt, 0);
+  }
+
+  public buildRank(query: ParsedSearchQuery, fields: string[], context: SearchContext): any {
+    return this.buildMatch(query, fields, context);
+  }
+
+  /**
+   * Write the parsed query in boolean-mode syntax: every term required, exclusions prefixed with -
+   */
+  public toBooleanQuery(query: ParsedSearchQuery): string {
+    const quote = (text: string) => `"${text.replace(/"/g, '')}"`;
+    return [
+      ...[...query.terms, ...query.phrases].map(term => `+${quote(term)}`),
+      ...query.excluded.map(term => `-${quote(term)}`),
+    ].join(' ');
+  }
+
+  private buildMatch(query: ParsedSearchQuery, fields: string[], context: SearchContext): any {
+    const sequelize = requireSequelize(this.name, context);
+    const columns = fields.map(field => quoteColumn(sequelize, qualify(field, context)));
+    return literal(
+      `MATCH (${columns.join(', ')}) AGAINST (${sequelize.escape(this.toBooleanQuery(query))} IN BOOLEAN MODE)`
+    );
+  }
+}
+
+/**
+ * SQLite FTS5 search against an external-content virtual table whose rowid matches the model
+ */
+export class SqliteFtsSearchProvider implements SearchProvider {
+  public readonly name = 'sqlite';
+  private table: string;
+  private rowIdColumn: string;
+
+  constructor(options: { table: string; rowIdColumn?: string }) {
+    this.table = options.table;
+    this.rowIdColumn = options.rowIdColumn || 'id';
+  }
+
+  public buildWhere(query: ParsedSearchQuery, fields: string[], context: SearchContext): any {
+    const sequelize = requireSequelize(this.name, context);
+    const table = quoteColumn(sequelize, this.table);
+    const match = sequelize.escape(this.toMatchQuery(query, fields));
+
+    return {
+      [this.rowIdColumn]: {
+        [Op.in]: literal(`(SELECT rowid FROM ${table} WHERE ${table} MATCH ${match})`),
+      },
+    };
+  }
+
+  public buildRank(query: ParsedSearchQuery, fields: string[], context: SearchContext): any {
+    const sequelize = requireSequelize(this.name, context);
+    const table = quoteColumn(sequelize, this.table);
+    const match = sequelize.escape(this.toMatchQuery(query, fields));
+    const rowId = quoteColumn(sequelize, qualify(this.rowIdColumn, context));
+
+    // bm25() is lower for better matches, so negate it to rank like ts_rank
+    return literal(
+      `(SELECT -bm25(${table}) FROM ${table} WHERE ${table} MATCH ${match} AND rowid = ${rowId})`
+    );
+  }
+
+  /**
+   * Write the parsed query in FTS5 syntax, limited to the searched columns.
+   * FTS5 cannot match exclusions alone, so a query needs at least one term or phrase.
+   */
+  public toMatchQuery(query: ParsedSearchQuery, fields: string[]): string {
+    if (query.terms.length === 0 && query.phrases.length === 0) {
+      throw new ValidationError(
+        'Search query needs at least one term or phrase to match',
+        'SEARCH_QUERY_EMPTY',
+        'search',
+        query.raw
+      );
+    }
+
+    const quote = (text: string) => `"${text.replace(/"/g, '""')}"`;
+    const positive = [...query.terms, ...query.phrases].map(quote).join(' ');
+    const expression = query.excluded.reduce(
+      (result, term) => `${result} NOT ${quote(term)}`,
+      `(${positive})`
+    );
+
+    return fields.length > 0 ? `{${fields.join(' ')}} : (${expression})` : expression;
+  }
+}
+
+/**
+ * Portable fallback: every term must appear in at least one field, matched case-insensitively
+ * with the dialect's LIKE translation
+ */
+export class LikeSearchProvider implements SearchProvider {
+  public readonly name = 'like';
+
+  public buildWhere(query: ParsedSearchQuery, fields: string[], context: SearchContext): any {
+    const capabilities = new DialectCapabilities(
+      context.dialect,
+      context.sequelize,
+      context.model?.name
+    );
+    const isNull = (field: string) => {
+      const column = qualify(field, context);
+      return { [column.includes('.') ? `$${column}$` : column]: null };
+    };
+    const like = (field: string, term: string, negated: boolean) =>
+      capabilities.buildLike(field, `%${DialectCapabilities.escapeLike(term)}%`, {
+        caseSensitive: false,
+        negated,
+      }).result;
+
+    return {
+      [Op.and]: [
+        ...[...query.terms, ...query.phrases].map(term => ({
+          [Op.or]: fields.map(field => like(field, term, false)),
+        })),
+        ...query.excluded.flatMap(term =>
+          fields.map(field => ({
+            [Op.or]: [isNull(field), like(field, term, true)],
+          }))
+        ),
+      ],
+    };
+  }
+
+  /**
+   * Rank by the number of term/field pairs that match
+   */
+  public buildRank(query: ParsedSearchQuery, fields: string[], context: SearchContext): any {
+    const sequelize = requireSequelize(this.name, context);
+    const operator = context.dialect === 'postgres' ? 'ILIKE' : 'LIKE';
+    const cases = [...query.terms, ...query.phrases].flatMap(term =>
+      fields.map(
+        field =>
+          `CASE WHEN ${quoteColumn(sequelize, qualify(field, context))} ${operator} ` +
+          `${sequelize.escape(`%${DialectCapabilities.escapeLike(term)}%`)} ` +
+          `ESCAPE ${sequelize.escape('\\')} THEN 1 ELSE 0 END`
+      )
+    );
+    return literal(`(${cases.length > 0 ? cases.join(' + ') : '0'})`);
+  }
+}
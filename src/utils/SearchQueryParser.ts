@@ -0,0 +1,62 @@
+import { ParsedSearchQuery, SearchQueryParserOptions } from '../types/SearchTypes';
+
+/**
+ * Tokenizes user search input into terms, quoted phrases and `-excluded` terms, e.g.
+ * `laptop "gaming mouse" -refurbished`.
+ *
+ * Punctuation around terms is dropped so the tokens are safe to hand to every
+ * search backend; the providers add their own quoting.
+ */
+export class SearchQueryParser {
+  private maxTerms: number;
+  private minTermLength: number;
+
+  constructor(options: SearchQueryParserOptions = {}) {
+    this.maxTerms = options.maxTerms || 20;
+    this.minTermLength = options.minTermLength || 1;
+  }
+
+  /**
+   * Parse search input
+   */
+  public parse(input: string): ParsedSearchQuery {
+    const query: ParsedSearchQuery = { raw: input, terms: [], phrases: [], excluded: [] };
+    const pattern = /(-?)"([^"]*)"?|(-?)([^\s"]+)/g;
+    let count = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(input)) !== null && count < this.maxTerms) {
+      const quoted = match[2] !== undefined;
+      const negated = (quoted ? match[1] : match[3]) === '-';
+      const words = this.normalize(quoted ? (match[2] as string) : (match[4] as string));
+
+      if (words.length === 0) continue;
+
+      const token = words.join(' ');
+      if (negated) {
+        query.excluded.push(token);
+      } else if (words.length > 1) {
+        query.phrases.push(token);
+      } else {
+        query.terms.push(token);
+      }
+      count++;
+    }
+
+    return query;
+  }
+
+  /**
+   * Check whether a parsed query has anything to match
+   */
+  public static isEmpty(query: ParsedSearchQuery): boolean {
+    return query.terms.length === 0 && query.phrases.length === 0;
+  }
+
+  private normalize(text: string): string[] {
+    return text
+      .split(/[^\p{L}\p{N}_'.-]+/u)
+      .map(word => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+      .filter(word => word.length >= this.minTermLength);
+  }
+}
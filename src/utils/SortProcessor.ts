@@ -1,8 +1,12 @@
+import { col, fn } from 'sequelize';
 import { SortCondition, SortResult, SortSchema } from '../types/SortTypes';
+import { DialectCapabilities } from './DialectCapabilities';
 // import { ValidationError } from '../errors/ValidationError';
 
 export class SortProcessor {
   private schema: SortSchema;
+  private capabilities: DialectCapabilities = new DialectCapabilities();
+  private strict = false;
 
   constructor(schema: SortSchema = {}) {
     this.schema = schema;
@@ -13,13 +17,7 @@ export class SortProcessor {
     const warnings: string[] = [];
 
     try {
-      let order: any[] = [];
-
-      if (Array.isArray(sorts)) {
-        order = this.processSortArray(sorts, errors, warnings);
-      } else {
-        order = this.processSortCondition(sorts, errors, warnings);
-      }
+      const order = this.processSortArray(Array.isArray(sorts) ? sorts : [sorts], errors, warnings);
 
       return {
         order,
@@ -38,26 +36,29 @@ export class SortProcessor {
     }
   }
 
-  private processSortArray(sorts: SortCondition[], errors: string[], _warnings: string[]): any[] {
-    return sorts.map(sort => this.processSortCondition(sort, errors, _warnings)).filter(Boolean);
+  private processSortArray(sorts: SortCondition[], errors: string[], warnings: string[]): any[] {
+    return sorts.flatMap(sort => this.processSortCondition(sort, errors, warnings));
   }
 
+  /**
+   * Build the order entries for one condition; emulated NULLS ordering adds a leading key
+   */
   private processSortCondition(
     condition: SortCondition,
     errors: string[],
-    _warnings: string[]
-  ): any {
+    warnings: string[]
+  ): any[] {
     // Validate the condition
     if (!this.validateCondition(condition)) {
       errors.push(`Invalid sort condition for column: ${condition.column}`);
-      return null;
+      return [];
     }
 
     // Get column schema
     const columnSchema = this.schema[condition.column];
-    if (columnSchema && !columnSchema.allowed) {
+    if ((!columnSchema && this.strict) || (columnSchema && !columnSchema.allowed)) {
       errors.push(`Column '${condition.column}' is not allowed for sorting`);
-      return null;
+      return [];
     }
 
     // Use default order if not specified
@@ -68,16 +69,23 @@ export class SortProcessor {
 
     // Handle case sensitivity
     if (condition.caseSensitive === false || columnSchema?.caseSensitive === false) {
-      sortExpression = this.sequelize.fn('LOWER', this.sequelize.col(condition.column));
+      sortExpression = fn('LOWER', col(condition.column));
     }
 
     // Handle nulls placement
     const nulls = condition.nulls || columnSchema?.nulls;
     if (nulls) {
-      sortExpression = [sortExpression, nulls === 'first' ? 'NULLS FIRST' : 'NULLS LAST'];
+      const translation = this.capabilities.buildNullsOrder(
+        sortExpression,
+        condition.column,
+        order,
+        nulls
+      );
+      warnings.push(...translation.warnings);
+      return translation.result;
     }
 
-    return [sortExpression, order];
+    return [[sortExpression, order]];
   }
 
   private validateCondition(condition: SortCondition): boolean {
@@ -104,10 +112,29 @@ export class SortProcessor {
     return this.schema;
   }
 
-  // This will be injected by the query builder
-  private sequelize: any;
+  /**
+   * In strict mode, columns without a schema entry are rejected instead of passed through
+   */
+  public setStrict(strict: boolean): void {
+    this.strict = strict;
+  }
+
+  public isStrict(): boolean {
+    return this.strict;
+  }
+
+  public setCapabilities(capabilities: DialectCapabilities): void {
+    this.capabilities = capabilities;
+  }
+
+  public getCapabilities(): DialectCapabilities {
+    return this.capabilities;
+  }
 
+  /**
+   * Use the dialect of a Sequelize instance for NULLS ordering
+   */
   public setSequelize(sequelize: any): void {
-    this.sequelize = sequelize;
+    this.capabilities = new DialectCapabilities(sequelize?.getDialect?.(), sequelize);
   }
 }
@@ -1,6 +1,41 @@
 import Joi from 'joi';
+import { Op } from 'sequelize';
 import { ValidationError } from '../errors/ValidationError';
 import { QueryConfig } from '../types/QueryTypes';
+import { FilterSchema } from '../types/FilterTypes';
+
+// Operators a restored `where`/`having` may use; column references (`Op.col`) and raw
+// sub-expressions (`Op.any`, `Op.all`, `Op.values`) are left out on purpose
+const SAFE_WHERE_OPERATORS = new Set<symbol>([
+  Op.and,
+  Op.or,
+  Op.not,
+  Op.eq,
+  Op.ne,
+  Op.is,
+  Op.gt,
+  Op.gte,
+  Op.lt,
+  Op.lte,
+  Op.between,
+  Op.notBetween,
+  Op.in,
+  Op.notIn,
+  Op.like,
+  Op.notLike,
+  Op.iLike,
+  Op.notILike,
+  Op.startsWith,
+  Op.endsWith,
+  Op.substring,
+  Op.regexp,
+  Op.notRegexp,
+  Op.iRegexp,
+  Op.notIRegexp,
+  Op.overlap,
+  Op.contains,
+  Op.contained,
+]);
 
 export class ValidationUtils {
   private static readonly defaultSchemas = {
@@ -11,6 +46,14 @@ export class ValidationUtils {
       limit: Joi.number().integer().min(1).max(1000).optional(),
     }),
 
+    cursorPagination: Joi.object({
+      cursor: Joi.string().optional(),
+      limit: Joi.number().integer().min(1).max(1000).optional(),
+      direction: Joi.string().valid('next', 'prev').optional(),
+      sortField: Joi.string().optional(),
+      sortOrder: Joi.string().valid('ASC', 'DESC').optional(),
+    }),
+
     filter: Joi.object({
       search: Joi.string().optional(),
       searchFields: Joi.array().items(Joi.string()).optional(),
@@ -52,6 +95,24 @@ export class ValidationUtils {
     return { isValid: true, data: value };
   }
 
+  public static validateCursorPagination(
+    options: any,
+    requestId?: string
+  ): { isValid: boolean; data?: any; error?: ValidationError } {
+    const schema = this.defaultSchemas.cursorPagination;
+
+    const { error, value } = schema.validate(options, { abortEarly: false });
+
+    if (error) {
+      return {
+        isValid: false,
+        error: ValidationError.fromJoiError(error, requestId),
+      };
+    }
+
+    return { isValid: true, data: value };
+  }
+
   public static validateFilters(
     options: any,
     customSchema?: Joi.ObjectSchema,
@@ -134,6 +195,27 @@ export class ValidationUtils {
       logLevel: Joi.string().valid('debug', 'info', 'warn', 'error').optional(),
       cacheProvider: Joi.string().valid('memory', 'redis').optional(),
       validationSchema: Joi.string().optional(),
+      enableCursor: Joi.boolean().optional(),
+      cursorSecret: Joi.string().min(16).optional(),
+      cursorTTL: Joi.number().integer().min(1).optional(),
+      allowUnsignedCursors: Joi.boolean().optional(),
+      countStrategy: Joi.alternatives()
+        .try(
+          Joi.string().valid('exact', 'none', 'estimated'),
+          Joi.object({
+            type: Joi.string().valid('exact', 'none', 'capped', 'estimated').required(),
+            limit: Joi.number().integer().min(1).optional(),
+          })
+        )
+        .optional(),
+      filterLimits: Joi.object({
+        maxDepth: Joi.number().integer().min(1).optional(),
+        maxConditions: Joi.number().integer().min(1).optional(),
+        maxInListSize: Joi.number().integer().min(1).optional(),
+        maxRegexLength: Joi.number().integer().min(1).optional(),
+        allowedOperators: Joi.array().items(Joi.string()).optional(),
+        deniedOperators: Joi.array().items(Joi.string()).optional(),
+      }).optional(),
     });
 
     const { error, value } = schema.validate(config, { abortEarly: false });
@@ -148,6 +230,118 @@ export class ValidationUtils {
     return { isValid: true, data: value };
   }
 
+  /**
+   * Validate a where/having object against a model: column keys must be attributes of the
+   * model (or `$association.attribute$` references), operators must be in the safe set and
+   * values must be plain data
+   */
+  public static validateWhere(
+    where: any,
+    model: any,
+    field: string = 'where',
+    requestId?: string
+  ): { isValid: boolean; error?: ValidationError } {
+    const fail = (message: string, path: string, value: any) => ({
+      isValid: false,
+      error: new ValidationError(message, 'INVALID_WHERE', path, value, undefined, requestId),
+    });
+
+    const check = (
+      node: any,
+      path: string,
+      columnLevel: boolean
+    ): { isValid: boolean; error?: ValidationError } => {
+      if (node === null || ['string', 'number', 'boolean'].includes(typeof node)) {
+        return { isValid: true };
+      }
+      if (node instanceof Date) {
+        return { isValid: true };
+      }
+      if (Array.isArray(node)) {
+        for (const [index, item] of node.entries()) {
+          const result = check(item, `${path}[${index}]`, columnLevel);
+          if (!result.isValid) return result;
+        }
+        return { isValid: true };
+      }
+      if (typeof node !== 'object' || Object.getPrototypeOf(node) !== Object.prototype) {
+        return fail(`Unsupported value in ${path}`, path, node);
+      }
+
+      for (const symbol of Object.getOwnPropertySymbols(node)) {
+        if (!SAFE_WHERE_OPERATORS.has(symbol)) {
+          return fail(`Operator ${symbol.toString()} is not allowed in ${path}`, path, node);
+        }
+        const isLogical = symbol === Op.and || symbol === Op.or || symbol === Op.not;
+        const result = check(
+          node[symbol],
+          `${path}.${symbol.description}`,
+          columnLevel && isLogical
+        );
+        if (!result.isValid) return result;
+      }
+      for (const key of Object.keys(node)) {
+        if (columnLevel && !ValidationUtils.isModelColumn(model, key)) {
+          return fail(`Unknown column "${key}" in ${path}`, `${path}.${key}`, key);
+        }
+        // Below a column, string keys are JSON paths
+        const result = check(node[key], `${path}.${key}`, false);
+        if (!result.isValid) return result;
+      }
+      return { isValid: true };
+    };
+
+    if (where === null || typeof where !== 'object' || Array.isArray(where)) {
+      return fail(`${field} must be an object`, field, where);
+    }
+    return check(where, field, true);
+  }
+
+  /**
+   * Validate a list of column names (e.g. `attributes` or `group`) against a model
+   */
+  public static validateColumns(
+    columns: any,
+    model: any,
+    field: string,
+    requestId?: string
+  ): { isValid: boolean; error?: ValidationError } {
+    const invalid = Array.isArray(columns)
+      ? columns.find(column => typeof column !== 'string' || !this.isModelColumn(model, column))
+      : columns;
+    if (!Array.isArray(columns) || invalid !== undefined) {
+      return {
+        isValid: false,
+        error: new ValidationError(
+          `${field} must be a list of model columns`,
+          'INVALID_COLUMNS',
+          field,
+          invalid,
+          undefined,
+          requestId
+        ),
+      };
+    }
+    return { isValid: true };
+  }
+
+  /**
+   * Check whether a name is an attribute of the model or a `$association.attribute$` reference
+   */
+  public static isModelColumn(model: any, name: string): boolean {
+    const attributes = (target: any) => target?.getAttributes?.() ?? target?.rawAttributes ?? {};
+    const hasOwn = (target: object, key: string) =>
+      Object.prototype.hasOwnProperty.call(target, key);
+    const reference = /^\$([^.$]+)\.([^.$]+)\$$/.exec(name);
+    if (!reference) {
+      return hasOwn(attributes(model), name);
+    }
+
+    const [, alias, attribute] = reference as unknown as [string, string, string];
+    const associations = model?.associations ?? {};
+    return hasOwn(associations, alias) && hasOwn(attributes(associations[alias].target), attribute);
+  }
+
   public static sanitizeInput(input: any): any {
     if (typeof input === 'string') {
       return input.trim();
@@ -165,6 +359,26 @@ export class ValidationUtils {
     return input;
   }
 
+  // A `type: 'object'` (JSON) entry also covers paths below it; `paths` restricts which ones
+  public static getFilterFieldSchema(
+    schema: FilterSchema,
+    field: string
+  ): FilterSchema[string] | undefined {
+    if (Object.prototype.hasOwnProperty.call(schema, field)) {
+      return schema[field];
+    }
+
+    const [root, ...path] = field.split('.');
+    const rootSchema = Object.prototype.hasOwnProperty.call(schema, root as string)
+      ? schema[root as string]
+      : undefined;
+    if (rootSchema?.type !== 'object' || path.length === 0) {
+      return undefined;
+    }
+
+    return !rootSchema.paths || rootSchema.paths.includes(path.join('.')) ? rootSchema : undefined;
+  }
+
   public static generateRequestId(): string {
     return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -0,0 +1,36 @@
+import { FilterOperator } from '../src/types/FilterTypes';
+import { FilterProcessor } from '../src/utils/FilterProcessor';
+import { createSequelize, defineUser, toSql } from './helpers';
+
+const User = defineUser(createSequelize());
+
+const processWith = (dialect: string | undefined, operator: FilterOperator, value: any) => {
+  const processor = new FilterProcessor();
+  processor.setDialect(dialect);
+  return processor.process([{ field: 'tags', operator, value }]);
+};
+
+describe('array column operators', () => {
+  it.each<[FilterOperator, any, string]>([
+    ['overlap', ['a', 'b'], `"User"."tags" && ARRAY['a','b']`],
+    ['arrayContains', ['a'], `"User"."tags" @> ARRAY['a']`],
+    ['arrayContainedBy', 'a', `"User"."tags" <@ ARRAY['a']`],
+    ['arrayLength', { gte: 1, lt: 5 }, `(cardinality("tags") >= 1 AND cardinality("tags") < 5)`],
+  ])('compiles %s on Postgres', (operator, value, sql) => {
+    const result = processWith('postgres', operator, value);
+
+    expect(result.errors).toEqual([]);
+    expect(toSql(User, result.where)).toBe(`(${sql})`);
+  });
+
+  it.each(['mysql', 'sqlite', 'mssql'])('reports array operators as unsupported on %s', dialect => {
+    const result = processWith(dialect, 'overlap', ['a']);
+
+    expect(result.where).toEqual({});
+    expect(result.errors).toEqual([
+      expect.stringContaining(
+        `Operator 'overlap' requires a PostgreSQL ARRAY column and is not supported on dialect '${dialect}'`
+      ),
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+import { createQueryBuilder } from '../src';
+import { ConnectionArgs } from '../src/types/PaginationTypes';
+import { createSequelize, defineUser, toSql } from './helpers';
+
+const User = defineUser(createSequelize());
+const findAll = jest.spyOn(User, 'findAll');
+
+const users = (...ids: number[]) => ids.map(id => User.build({ id, name: `user${id}` }));
+
+const createBuilder = () =>
+  createQueryBuilder(User as any, {
+    enableCursor: true,
+    allowUnsignedCursors: true,
+    maxPageSize: 50,
+  }).withSorting({ column: 'name', order: 'ASC' });
+
+describe('AdvancedQueryBuilder.executeAsConnection', () => {
+  beforeEach(() => findAll.mockReset());
+
+  it.each<[ConnectionArgs, string]>([
+    [{ first: 0 }, '"first" must be a positive integer'],
+    [{ last: 1.5 }, '"last" must be a positive integer'],
+    [{ first: 51 }, '"first" cannot exceed 50'],
+    [{ first: 1, last: 1 }, '"first" and "last" cannot be used together'],
+    [{ after: 'a', before: 'b' }, '"after" and "before" cannot be used together'],
+    [{ after: 1 as any }, '"after" must be a cursor string'],
+  ])('rejects %p', async (args, message) => {
+    const error = await createBuilder()
+      .executeAsConnection(args)
+      .catch(caught => caught);
+
+    expect(error.code).toBe('INVALID_CONNECTION_ARGS');
+    expect(error.details.errors).toContain(message);
+    expect(findAll).not.toHaveBeenCalled();
+  });
+
+  it('returns the first page with pageInfo', async () => {
+    findAll.mockResolvedValueOnce(users(1, 2, 3));
+
+    const connection = await createBuilder().executeAsConnection({ first: 2 });
+
+    expect(findAll.mock.calls[0]?.[0]).toEqual(expect.objectContaining({ limit: 3 }));
+    expect(connection.edges.map(edge => edge.node.get('id'))).toEqual([1, 2]);
+    expect(connection.pageInfo).toEqual({
+      hasNextPage: true,
+      hasPreviousPage: false,
+      startCursor: connection.edges[0]?.cursor,
+      endCursor: connection.edges[1]?.cursor,
+    });
+  });
+
+  it('continues after the end cursor', async () => {
+    findAll.mockResolvedValueOnce(users(1, 2, 3)).mockResolvedValueOnce(users(3));
+    const builder = createBuilder();
+    const { pageInfo } = await builder.executeAsConnection({ first: 2 });
+
+    const connection = await builder.executeAsConnection({
+      first: 2,
+      after: pageInfo.endCursor as string,
+    });
+
+    const where = (findAll.mock.calls[1]?.[0] as any).where;
+    expect(toSql(User, where)).toBe(
+      `("User"."name" > 'user2' OR ("User"."name" = 'user2' AND "User"."id" > 2))`
+    );
+    expect(connection.edges.map(edge => edge.node.get('id'))).toEqual([3]);
+    expect(connection.pageInfo).toEqual(
+      expect.objectContaining({ hasNextPage: false, hasPreviousPage: true })
+    );
+  });
+
+  it('pages backwards before a cursor with last', async () => {
+    findAll.mockResolvedValueOnce(users(3, 4)).mockResolvedValueOnce(users(2, 1));
+    const builder = createBuilder();
+    const { pageInfo } = await builder.executeAsConnection({ first: 1 });
+
+    const connection = await builder.executeAsConnection({
+      last: 1,
+      before: pageInfo.startCursor as string,
+    });
+
+    const options = findAll.mock.calls[1]?.[0] as any;
+    expect(options.order).toEqual([
+      ['name', 'DESC'],
+      ['id', 'DESC'],
+    ]);
+    expect(connection.edges.map(edge => edge.node.get('id'))).toEqual([2]);
+    expect(connection.pageInfo).toEqual(
+      expect.objectContaining({ hasNextPage: true, hasPreviousPage: true })
+    );
+  });
+});
@@ -0,0 +1,33 @@
+import { createQueryBuilder } from '../src';
+import { CountStrategies } from '../src/utils/CountStrategies';
+import { createSequelize, defineUser } from './helpers';
+
+const User = defineUser(createSequelize());
+const findAll = jest.spyOn(User, 'findAll');
+const count = jest.spyOn(User, 'count');
+
+describe('capped count strategy', () => {
+  beforeEach(() => {
+    findAll.mockReset();
+    count.mockReset();
+  });
+
+  it('caps grouped counts with a limited query', async () => {
+    const groups = (n: number) => Array.from({ length: n }, (_, i) => ({ status: `s${i}` }));
+    findAll.mockResolvedValueOnce(groups(3) as any).mockResolvedValueOnce(groups(6) as any);
+
+    const result = await createQueryBuilder(User as any)
+      .withGroup(['status'])
+      .withCountStrategy(CountStrategies.capped(5))
+      .withPagination({ page: 1, pageSize: 2 })
+      .execute();
+
+    expect(count).not.toHaveBeenCalled();
+    expect(findAll.mock.calls[1]?.[0]).toEqual(
+      expect.objectContaining({ attributes: ['status'], group: ['status'], limit: 6 })
+    );
+    expect(result.pagination).toEqual(
+      expect.objectContaining({ total: 5, totalIsExact: false, countStrategy: 'capped' })
+    );
+  });
+});
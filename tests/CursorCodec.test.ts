@@ -0,0 +1,42 @@
+import { CursorCodec } from '../src/utils/CursorCodec';
+
+const secret = 'a-cursor-secret-of-some-length';
+
+describe('CursorCodec', () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  beforeEach(() => warn.mockClear());
+
+  it('round-trips signed cursors bound to a query', () => {
+    const codec = new CursorCodec({ secret });
+    const token = codec.encode({ id: 5 }, 'hash');
+
+    expect(codec.decode(token, 'hash')).toEqual({ id: 5 });
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('rejects cursors without a query hash when one is expected', () => {
+    const codec = new CursorCodec({ secret });
+    const token = codec.encode({ id: 5 });
+
+    expect(() => codec.decode(token, 'hash')).toThrow(
+      expect.objectContaining({ code: 'CURSOR_QUERY_MISMATCH' })
+    );
+  });
+
+  it('rejects unsigned cursors when a secret is configured', () => {
+    const token = new CursorCodec({ allowUnsigned: true }).encode({ id: 5 }, 'hash');
+
+    expect(() => new CursorCodec({ secret }).decode(token, 'hash')).toThrow(
+      expect.objectContaining({ code: 'INVALID_CURSOR' })
+    );
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('warns once when cursors are unsigned', () => {
+    const token = new CursorCodec().encode({ id: 5 });
+    new CursorCodec().decode(token);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]?.[0]).toContain('cursorSecret');
+  });
+});
@@ -0,0 +1,75 @@
+import { DataTypes, col } from 'sequelize';
+import { createQueryBuilder } from '../src';
+import { createSequelize, defineUser } from './helpers';
+
+const sequelize = createSequelize();
+const User = defineUser(sequelize);
+const Profile = sequelize.define('Profile', { country: DataTypes.STRING });
+const Order = sequelize.define('Order', { total: DataTypes.INTEGER });
+User.hasOne(Profile, { as: 'profile' });
+User.hasMany(Order, { as: 'orders' });
+
+const findAll = jest.spyOn(User, 'findAll');
+jest.spyOn(User, 'count').mockResolvedValue(0);
+
+describe('deferred join key phase', () => {
+  beforeEach(() => findAll.mockReset());
+
+  it('keeps the includes the sort order references', async () => {
+    findAll.mockResolvedValueOnce([{ id: 1 }] as any).mockResolvedValueOnce([]);
+
+    await createQueryBuilder(User as any)
+      .withJoins([
+        { model: 'Profile', as: 'profile' },
+        { model: 'Order', as: 'orders' },
+      ])
+      .withSorting({ column: '$profile.country$', order: 'ASC' })
+      .withPagination({ page: 3, pageSize: 10 })
+      .withDeferredJoin()
+      .execute();
+
+    const keyOptions = findAll.mock.calls[0]?.[0] as any;
+    expect(keyOptions.include).toEqual([
+      expect.objectContaining({ model: 'Profile', as: 'profile', attributes: [] }),
+    ]);
+    expect(keyOptions.group).toEqual([col('User.id'), col('profile.country')]);
+    expect(keyOptions.order).toEqual([['$profile.country$', 'ASC']]);
+  });
+
+  it('keeps the includes that $association.column$ conditions reference', async () => {
+    findAll.mockResolvedValueOnce([{ id: 1 }] as any).mockResolvedValueOnce([]);
+
+    await createQueryBuilder(User as any)
+      .withJoins([
+        { model: 'Profile', as: 'profile' },
+        { model: 'Order', as: 'orders' },
+      ])
+      .withWhere({ '$profile.country$': 'NL' })
+      .withSorting({ column: 'name', order: 'ASC' })
+      .withPagination({ page: 3, pageSize: 10 })
+      .withDeferredJoin()
+      .execute();
+
+    const keyOptions = findAll.mock.calls[0]?.[0] as any;
+    expect(keyOptions.where).toEqual({ '$profile.country$': 'NL' });
+    expect(keyOptions.include).toEqual([
+      expect.objectContaining({ model: 'Profile', as: 'profile', attributes: [] }),
+    ]);
+    expect(keyOptions.group).toEqual([col('User.id')]);
+  });
+
+  it('leaves out includes that neither filter nor sort', async () => {
+    findAll.mockResolvedValueOnce([{ id: 1 }] as any).mockResolvedValueOnce([]);
+
+    await createQueryBuilder(User as any)
+      .withJoins([{ model: 'Profile', as: 'profile' }])
+      .withSorting({ column: 'name', order: 'ASC' })
+      .withPagination({ page: 3, pageSize: 10 })
+      .withDeferredJoin()
+      .execute();
+
+    const keyOptions = findAll.mock.calls[0]?.[0] as any;
+    expect(keyOptions.include).toBeUndefined();
+    expect(keyOptions.group).toBeUndefined();
+  });
+});
@@ -0,0 +1,103 @@
+import { Op } from 'sequelize';
+import { DialectCapabilities } from '../src/utils/DialectCapabilities';
+import { FilterProcessor } from '../src/utils/FilterProcessor';
+import { createSequelize, defineUser, toSql } from './helpers';
+
+const mysql = createSequelize('mysql');
+const User = defineUser(mysql);
+
+const like = (capabilities: DialectCapabilities, field: string, caseSensitive: boolean) =>
+  toSql(User, capabilities.buildLike(field, 'a%', { caseSensitive, negated: false }).result);
+
+describe('DialectCapabilities column qualification', () => {
+  it('qualifies bare columns with the model name', () => {
+    expect(like(new DialectCapabilities('sqlite', undefined, 'User'), 'name', false)).toBe(
+      "LOWER(`User`.`name`) LIKE 'a%'"
+    );
+    expect(like(DialectCapabilities.fromModel(User), 'name', true)).toBe(
+      "CAST(`User`.`name` AS BINARY) LIKE 'a%'"
+    );
+  });
+
+  it('keeps association references as they are', () => {
+    expect(
+      like(new DialectCapabilities('sqlite', undefined, 'User'), '$profile.name$', false)
+    ).toBe("LOWER(`profile`.`name`) LIKE 'a%'");
+  });
+
+  it('qualifies the IS NULL sort key', () => {
+    const [nullsKey] = DialectCapabilities.fromModel(User).buildNullsOrder(
+      'name',
+      'name',
+      'ASC',
+      'last'
+    ).result as [[any, string]];
+    expect(
+      (mysql.getQueryInterface() as any).queryGenerator.handleSequelizeMethod(nullsKey[0])
+    ).toBe('ISNULL(`User`.`name`)');
+  });
+});
+
+describe('LIKE wildcard escaping', () => {
+  const contains = (dialect: string) => {
+    const processor = new FilterProcessor();
+    processor.setDialect(dialect);
+    return processor.process([{ field: 'name', operator: 'contains', value: '50%_off\\' }]);
+  };
+
+  it('escapes %, _ and backslashes in values', () => {
+    expect(DialectCapabilities.escapeLike('50%_off\\')).toBe('50\\%\\_off\\\\');
+  });
+
+  it.each([
+    ['postgres', { name: { [Op.iLike]: '%50\\%\\_off\\\\%' } }],
+    ['mysql', { name: { [Op.like]: '%50\\%\\_off\\\\%' } }],
+    ['mssql', { name: { [Op.like]: '%50[%][_]off\\%' } }],
+  ])('keeps the pattern literal on %s', (dialect, where) => {
+    const result = contains(dialect);
+
+    expect(result.errors).toEqual([]);
+    expect(result.where).toEqual({ [Op.and]: [where] });
+  });
+
+  it('adds an ESCAPE clause on SQLite', () => {
+    const sqlite = defineUser(createSequelize('sqlite'));
+
+    expect(toSql(sqlite, contains('sqlite').where)).toBe(
+      "(LOWER(`name`) LIKE '%50\\%\\_off\\\\%' ESCAPE '\\')"
+    );
+  });
+
+  it('lets raw patterns keep their wildcards', () => {
+    const processor = new FilterProcessor();
+    processor.setDialect('postgres');
+    const result = processor.process([
+      { field: 'name', operator: 'like', value: 'a%', rawPattern: true },
+      { field: 'status', operator: 'like', value: 'b%' },
+    ]);
+
+    expect(result.where).toEqual({
+      [Op.and]: [{ name: { [Op.iLike]: 'a%' } }, { status: { [Op.iLike]: 'b\\%' } }],
+    });
+  });
+
+  it('applies the FilterSchema pattern limits', () => {
+    const processor = new FilterProcessor();
+    processor.setSchema({
+      name: {
+        type: 'string',
+        operators: ['like', 'endsWith'],
+        rawPatterns: true,
+        maxPatternLength: 5,
+        allowLeadingWildcard: false,
+      },
+    });
+
+    expect(processor.process([{ field: 'name', operator: 'endsWith', value: 'a' }]).errors).toEqual(
+      ["Leading wildcards are not allowed for field 'name'"]
+    );
+    expect(
+      processor.process([{ field: 'name', operator: 'like', value: 'abcdef' }]).errors
+    ).toEqual(["Pattern for field 'name' exceeds 5 characters"]);
+  });
+});
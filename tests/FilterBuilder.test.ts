@@ -0,0 +1,181 @@
+import { FilterBuilder } from '../src/builders/FilterBuilder';
+import { FilterAst } from '../src/utils/FilterAst';
+import { createSequelize, defineUser, toSql } from './helpers';
+
+const User = defineUser(createSequelize());
+
+const sql = (builder: FilterBuilder): string => {
+  const result = builder.build();
+  expect(result.errors).toEqual([]);
+  return toSql(User, result.where);
+};
+
+describe('FilterBuilder boolean groups', () => {
+  it('binds AND tighter than OR', () => {
+    const builder = new FilterBuilder().where('name', 'a').where('age', 1).orWhere('status', 'c');
+
+    expect(sql(builder)).toBe(
+      `(("User"."name" = 'a' AND "User"."age" = 1) OR "User"."status" = 'c')`
+    );
+    expect(builder.toRsql()).toBe('name==a;age==1,status==c');
+  });
+
+  it('keeps an OR after an AND run in its own term', () => {
+    const builder = new FilterBuilder().where('name', 'a').orWhere('age', 1).where('status', 'c');
+
+    expect(sql(builder)).toBe(
+      `("User"."name" = 'a' OR ("User"."age" = 1 AND "User"."status" = 'c'))`
+    );
+  });
+
+  it('compiles a AND (b OR NOT c)', () => {
+    const builder = new FilterBuilder()
+      .where('name', 'a')
+      .whereGroup(group =>
+        group.where('age', 1).orWhereGroup(inner => inner.whereNot(not => not.where('status', 'c')))
+      );
+
+    expect(sql(builder)).toBe(
+      `("User"."name" = 'a' AND ("User"."age" = 1 OR (NOT (("User"."status" = 'c')))))`
+    );
+    expect(builder.toRsql()).toBe('name==a;(age==1,status!=c)');
+  });
+
+  it('groups OR-joined groups', () => {
+    const builder = new FilterBuilder()
+      .whereGroup(group => group.where('name', 'a').where('age', 1))
+      .orWhereGroup(group => group.where('name', 'b').where('age', 2));
+
+    expect(sql(builder)).toBe(
+      `(("User"."name" = 'a' AND "User"."age" = 1) OR ("User"."name" = 'b' AND "User"."age" = 2))`
+    );
+  });
+
+  it('cancels out double negation', () => {
+    const builder = new FilterBuilder().whereNot(outer =>
+      outer.whereNot(inner => inner.where('name', 'a'))
+    );
+
+    expect(builder.toAst()).toEqual(
+      FilterAst.and(
+        FilterAst.not(
+          FilterAst.and(FilterAst.not(FilterAst.and(FilterAst.comparison('name', 'eq', 'a'))))
+        )
+      )
+    );
+    expect(sql(builder)).toBe(`(NOT ((NOT (("User"."name" = 'a')))))`);
+    expect(builder.toRsql()).toBe('name==a');
+  });
+
+  it('applies De Morgan when negating an OR group', () => {
+    const builder = new FilterBuilder().whereNot(group =>
+      group.where('name', 'a').orWhere('age', 1)
+    );
+
+    expect(builder.toRsql()).toBe('name!=a;age!=1');
+  });
+
+  it('keeps whereNot(field, value) as a not-equal comparison', () => {
+    expect(sql(new FilterBuilder().whereNot('name', 'a'))).toBe(`("User"."name" != 'a')`);
+  });
+
+  it('ignores empty groups', () => {
+    expect(sql(new FilterBuilder().whereGroup(() => undefined).where('name', 'a'))).toBe(
+      `("User"."name" = 'a')`
+    );
+  });
+
+  it('keeps the structure of groups passed to addFilterGroup', () => {
+    const builder = new FilterBuilder().addFilterGroup({
+      operator: 'or',
+      conditions: [
+        { field: 'name', operator: 'eq', value: 'a' },
+        { field: 'age', operator: 'eq', value: 1 },
+      ],
+    });
+
+    expect(sql(builder)).toBe(`(("User"."name" = 'a' OR "User"."age" = 1))`);
+  });
+
+  it('keeps the OR boundary when a term is removed', () => {
+    const builder = new FilterBuilder()
+      .where('name', 'a')
+      .orWhere('age', 1)
+      .where('status', 'c')
+      .removeFiltersByField('age');
+
+    expect(builder.toRsql()).toBe('name==a,status==c');
+  });
+});
+
+describe('FilterBuilder AST transforms', () => {
+  const tenant = (builder: FilterBuilder) =>
+    builder.addAstTransform(node =>
+      FilterAst.and(node, FilterAst.comparison('status', 'eq', 't1'))
+    );
+
+  it.each<[string, (builder: FilterBuilder) => any]>([
+    ['RSQL', builder => builder.processRsql('name==a')],
+    ['MongoDB', builder => builder.processMongo({ name: 'a' })],
+    ['query-string', builder => builder.processQueryString('filter[name]=a')],
+  ])('apply to %s filters', (_, process) => {
+    const result = process(tenant(new FilterBuilder()));
+
+    expect(result.errors).toEqual([]);
+    expect(toSql(User, result.where)).toBe(`(("User"."name" = 'a') AND "User"."status" = 't1')`);
+  });
+});
+
+describe('FilterBuilder pattern helpers', () => {
+  it('match case-insensitively by default', () => {
+    const builder = new FilterBuilder()
+      .whereContains('name', 'a')
+      .whereStartsWith('status', 'b')
+      .whereLike('name', 'c%')
+      .whereNotLike('status', 'd%', false);
+
+    expect(sql(builder)).toBe(
+      `(LOWER("name") LIKE '%a%' AND LOWER("status") LIKE 'b%' AND LOWER("name") LIKE 'c%' AND LOWER("status") NOT LIKE 'd%')`
+    );
+  });
+
+  it('keep whereNotLike case-sensitive by default', () => {
+    expect(sql(new FilterBuilder().whereNotLike('status', 'd%'))).toBe(
+      `("User"."status" NOT LIKE 'd%')`
+    );
+  });
+
+  it('match case-sensitively on request', () => {
+    const builder = new FilterBuilder()
+      .whereEndsWith('name', 'a', true)
+      .whereLike('name', 'b%', true);
+
+    expect(sql(builder)).toBe(`("User"."name" LIKE '%a' AND "User"."name" LIKE 'b%')`);
+  });
+});
+
+describe('FilterBuilder strict mode', () => {
+  const strictBuilder = () => {
+    const builder = new FilterBuilder();
+    builder.getProcessor().setSchema({ name: { type: 'string', operators: ['eq', 'contains'] } });
+    builder.getProcessor().setStrict(true);
+    return builder;
+  };
+
+  it('rejects search fields outside the schema', () => {
+    const options = { search: 'x', searchFields: ['name', 'passwordHash'] };
+
+    expect(strictBuilder().processFromOptions(options).errors).toEqual([
+      'Fields not allowed for searching: passwordHash',
+    ]);
+    expect(() => strictBuilder().buildSearchWhere(options)).toThrow(
+      expect.objectContaining({ code: 'FIELD_NOT_ALLOWED' })
+    );
+  });
+
+  it('accepts search fields in the schema', () => {
+    expect(
+      strictBuilder().processFromOptions({ search: 'x', searchFields: ['name'] }).errors
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+import { createQueryBuilder } from '../src';
+import { FilterOperator } from '../src/types/FilterTypes';
+import { FilterComplexityGuard } from '../src/utils/FilterComplexityGuard';
+import { ValidationError } from '../src/errors/ValidationError';
+import { createSequelize, defineUser } from './helpers';
+
+const User = defineUser(createSequelize());
+jest.spyOn(User, 'findAll').mockResolvedValue([]);
+
+const createBuilder = (maxDepth: number) =>
+  createQueryBuilder(User as any, { filterLimits: { maxDepth } });
+
+describe('FilterComplexityGuard in AdvancedQueryBuilder', () => {
+  it('counts depth the same way in withFilters and execute', async () => {
+    const builder = createBuilder(1).withFilters({
+      status: 'active',
+      filter: { name: 'a', age: { gte: '18' } },
+    });
+
+    await expect(builder.execute()).resolves.toEqual(expect.objectContaining({ data: [] }));
+  });
+
+  it('rejects nested groups over the limit in withFilters', () => {
+    expect(() =>
+      createBuilder(1).withFilters({ filter: { or: [{ name: 'a' }, { name: 'b' }] } })
+    ).toThrow(expect.objectContaining({ code: 'FILTER_TOO_COMPLEX' }));
+  });
+
+  it('applies the limits to RSQL and OData filters', () => {
+    expect(() => createBuilder(1).withFilters({ rsql: 'name==a,name==b' })).toThrow(
+      expect.objectContaining({ code: 'FILTER_TOO_COMPLEX' })
+    );
+    expect(() => createBuilder(1).withFilters({ odata: "name eq 'a' or name eq 'b'" })).toThrow(
+      expect.objectContaining({ code: 'FILTER_TOO_COMPLEX' })
+    );
+  });
+
+  it('rethrows limit violations from execute unchanged', async () => {
+    const builder = createBuilder(5).withFilters({ name: 'a', status: 'b' });
+    builder.getFilterBuilder().getProcessor().setLimits({ maxConditions: 1 });
+
+    const error = await builder.execute().catch(caught => caught);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.code).toBe('FILTER_TOO_COMPLEX');
+  });
+});
+
+describe('FilterComplexityGuard maxInListSize', () => {
+  const guard = new FilterComplexityGuard({ maxInListSize: 2 });
+
+  it.each<FilterOperator>(['in', 'overlap', 'arrayContains', 'arrayContainedBy', 'between'])(
+    'caps %s lists',
+    operator => {
+      expect(() => guard.check({ field: 'tags', operator, value: ['a', 'b', 'c'] })).toThrow(
+        expect.objectContaining({
+          code: 'FILTER_TOO_COMPLEX',
+          details: { limit: 'maxInListSize', configured: 2 },
+        })
+      );
+    }
+  );
+
+  it('counts comma-separated query-string lists', () => {
+    expect(() => guard.check({ field: 'tags', operator: 'overlap', value: 'a,b,c' })).toThrow(
+      expect.objectContaining({ code: 'FILTER_TOO_COMPLEX' })
+    );
+    expect(() => guard.check({ field: 'tags', operator: 'overlap', value: 'a,b' })).not.toThrow();
+  });
+});
@@ -0,0 +1,25 @@
+import { Op } from 'sequelize';
+import { FilterProcessor } from '../src/utils/FilterProcessor';
+
+const processor = new FilterProcessor();
+processor.setSchema({ active: { type: 'boolean', operators: ['eq'] } });
+
+const process = (value: string) => processor.process([{ field: 'active', operator: 'eq', value }]);
+
+describe('FilterProcessor boolean coercion', () => {
+  it.each([
+    ['TRUE', true],
+    ['0', false],
+  ])('coerces %s', (value, expected) => {
+    const result = process(value);
+
+    expect(result.errors).toEqual([]);
+    expect(result.where).toEqual({ [Op.and]: [{ active: expected }] });
+  });
+
+  it.each(['constructor', 'toString', 'yes'])('rejects %s', value => {
+    expect(process(value).errors).toEqual([
+      `Cannot coerce value '${value}' for field 'active' to boolean`,
+    ]);
+  });
+});
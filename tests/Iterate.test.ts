@@ -0,0 +1,67 @@
+import { createQueryBuilder } from '../src';
+import { createSequelize, defineUser, toSql } from './helpers';
+
+const User = defineUser(createSequelize());
+const findAll = jest.spyOn(User, 'findAll');
+
+const users = (...ids: number[]) => ids.map(id => User.build({ id, name: `user${id}` }));
+
+const createBuilder = () =>
+  createQueryBuilder(User as any)
+    .withFilters({ status: 'active' })
+    .withSorting({ column: 'name', order: 'ASC' });
+
+const collect = async (iterator: AsyncGenerator<any, void, undefined>) => {
+  const items: any[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+};
+
+describe('AdvancedQueryBuilder.iterateBatches', () => {
+  beforeEach(() => findAll.mockReset());
+
+  it('walks batches in keyset order and stops at a short batch', async () => {
+    findAll
+      .mockResolvedValueOnce(users(1, 2))
+      .mockResolvedValueOnce(users(3, 4))
+      .mockResolvedValueOnce(users(5));
+
+    const batches = await collect(createBuilder().iterateBatches({ batchSize: 2 }));
+
+    expect(batches.map(batch => batch.map((row: any) => row.get('id')))).toEqual([
+      [1, 2],
+      [3, 4],
+      [5],
+    ]);
+    expect(findAll).toHaveBeenCalledTimes(3);
+
+    const [first, second] = findAll.mock.calls.map(call => call[0] as any);
+    expect(first.order).toEqual([
+      ['name', 'ASC'],
+      ['id', 'ASC'],
+    ]);
+    expect(first.limit).toBe(2);
+    expect(toSql(User, first.where)).toBe(`("User"."status" = 'active')`);
+    expect(toSql(User, second.where)).toBe(
+      `(("User"."status" = 'active') AND ("User"."name" > 'user2' OR ("User"."name" = 'user2' AND "User"."id" > 2)))`
+    );
+  });
+
+  it('stops at an empty batch after a full one', async () => {
+    findAll.mockResolvedValueOnce(users(1, 2)).mockResolvedValueOnce([]);
+
+    const rows = await collect(createBuilder().iterate({ batchSize: 2 }));
+
+    expect(rows.map(row => row.get('id'))).toEqual([1, 2]);
+    expect(findAll).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects batch sizes that are not positive integers', async () => {
+    await expect(collect(createBuilder().iterateBatches({ batchSize: 0 }))).rejects.toEqual(
+      expect.objectContaining({ code: 'INVALID_BATCH_SIZE' })
+    );
+    expect(findAll).not.toHaveBeenCalled();
+  });
+});
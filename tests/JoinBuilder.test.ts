@@ -0,0 +1,39 @@
+import { DataTypes } from 'sequelize';
+import { createQueryBuilder } from '../src';
+import { QueryError } from '../src/errors/QueryError';
+import { createSequelize, defineUser } from './helpers';
+
+const sequelize = createSequelize();
+const User = defineUser(sequelize);
+const Profile = sequelize.define('Profile', { country: DataTypes.STRING });
+User.hasOne(Profile, { as: 'profile' });
+
+const findAll = jest.spyOn(User, 'findAll').mockResolvedValue([]);
+
+describe('JoinBuilder association paths', () => {
+  beforeEach(() => findAll.mockClear());
+
+  it('includes filter associations for the current query only', async () => {
+    const builder = createQueryBuilder(User as any).withWhere({ '$profile.country$': 'NL' });
+    await builder.execute();
+
+    expect(findAll.mock.calls[0]?.[0]?.include).toEqual([
+      expect.objectContaining({ model: Profile, as: 'profile', required: true, attributes: [] }),
+    ]);
+    expect(builder.getJoinBuilder().build()).toEqual([]);
+
+    await builder.withWhere({ name: 'a' }).execute();
+    expect(findAll.mock.calls[1]?.[0]?.include).toBeUndefined();
+  });
+
+  it.each(['address', 'constructor'])('rejects the unknown association %s', async name => {
+    const error = await createQueryBuilder(User as any)
+      .withWhere({ [`$${name}.country$`]: 'NL' })
+      .execute()
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(QueryError);
+    expect(error.code).toBe('INVALID_ASSOCIATION_PATH');
+    expect(error.details.validAssociations).toEqual(['profile']);
+  });
+});
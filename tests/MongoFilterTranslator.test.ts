@@ -0,0 +1,51 @@
+import { Op } from 'sequelize';
+import { MongoFilterTranslator } from '../src/utils/MongoFilterTranslator';
+
+const translate = (document: any) => new MongoFilterTranslator().translate(document);
+
+describe('MongoFilterTranslator', () => {
+  it('translates comparisons and logical operators', () => {
+    expect(translate({ $or: [{ age: { $gte: 18 } }, { status: { $in: ['a', 'b'] } }] })).toEqual({
+      operator: 'or',
+      conditions: [
+        { field: 'age', operator: 'gte', value: 18 },
+        { field: 'status', operator: 'in', value: ['a', 'b'] },
+      ],
+    });
+  });
+
+  it.each([
+    ['a top-level $where', { $where: 'this.isAdmin' }, '$where'],
+    ['a field-level $where', { age: { $where: 'sleep(1000)' } }, 'age.$where'],
+    ['$expr', { $expr: { $gt: ['$age', 1] } }, '$expr'],
+    ['an unknown field operator', { age: { $foo: 1 } }, 'age.$foo'],
+    ['a nested unknown operator', { $and: [{ $function: {} }] }, '$and.0.$function'],
+  ])('rejects %s', (_, document, field) => {
+    expect(() => translate(document)).toThrow(
+      expect.objectContaining({ code: 'INVALID_FILTER_OPERATOR', field })
+    );
+  });
+
+  it('rejects Sequelize operator symbols', () => {
+    expect(() => translate({ [Op.or]: [{ age: 1 }] })).toThrow(
+      expect.objectContaining({ code: 'INVALID_FILTER_OPERATOR' })
+    );
+    expect(() => translate({ age: { [Op.gt]: 1 } })).toThrow(
+      expect.objectContaining({ code: 'INVALID_FILTER_OPERATOR', field: 'age' })
+    );
+  });
+
+  it('reports every unknown operator in details', () => {
+    const error = (() => {
+      try {
+        translate({ $where: 'x', age: { $foo: 1 } });
+      } catch (caught) {
+        return caught as any;
+      }
+    })();
+
+    expect(error.message).toBe('Unknown filter operator "$where" (and 1 more)');
+    expect(error.details.errors.map((entry: any) => entry.path)).toEqual(['$where', 'age.$foo']);
+    expect(error.details.supportedOperators).not.toContain('$where');
+  });
+});
@@ -0,0 +1,48 @@
+import { createQueryBuilder } from '../src';
+import { ODataQueryParser } from '../src/utils/ODataQueryParser';
+import { createSequelize, defineUser } from './helpers';
+
+const User = defineUser(createSequelize());
+const findAll = jest.spyOn(User, 'findAll');
+
+describe('ODataQueryParser', () => {
+  it.each([
+    ["constructor(name,'x')", 'Function "constructor" is not supported'],
+    ["name toString 'x'", 'Operator "toString" is not supported'],
+  ])('rejects inherited names in %s', (filter, message) => {
+    expect(() => new ODataQueryParser().parse({ $filter: filter })).toThrow(
+      expect.objectContaining({
+        code: 'ODATA_UNSUPPORTED',
+        message: expect.stringContaining(message),
+      })
+    );
+  });
+});
+
+describe('withODataQuery $count', () => {
+  beforeEach(() => findAll.mockReset());
+
+  it('returns the total without paginating', async () => {
+    const rows = Array.from({ length: 12 }, (_, id) => ({ id }));
+    findAll.mockResolvedValueOnce(rows as any);
+
+    const result = await createQueryBuilder(User as any)
+      .withODataQuery('$count=true')
+      .execute();
+
+    expect(findAll.mock.calls[0]?.[0]).not.toHaveProperty('limit');
+    expect(result.pagination).toBeUndefined();
+    expect(result.count).toBe(12);
+  });
+
+  it('keeps $top and $skip as pagination', async () => {
+    findAll.mockResolvedValueOnce([]);
+    jest.spyOn(User, 'count').mockResolvedValueOnce(0);
+
+    await createQueryBuilder(User as any)
+      .withODataQuery('$top=5&$skip=10&$count=true')
+      .execute();
+
+    expect(findAll.mock.calls[0]?.[0]).toEqual(expect.objectContaining({ limit: 5, offset: 10 }));
+  });
+});
@@ -0,0 +1,46 @@
+import { createQueryBuilder } from '../src';
+import { PaginationError } from '../src/errors/PaginationError';
+import { createSequelize, defineUser } from './helpers';
+
+const User = defineUser(createSequelize());
+const rows = [User.build({ id: 1, name: 'a' }), User.build({ id: 2, name: 'b' })];
+jest.spyOn(User, 'findAll').mockResolvedValue(rows);
+
+const createBuilder = (config = {}) =>
+  createQueryBuilder(User as any, { allowUnsignedCursors: true, ...config }).withSorting({
+    column: 'name',
+    order: 'ASC',
+  });
+
+const dropCursorValue = (token: string, column: string): string => {
+  const [version, payload] = token.split('.') as [string, string];
+  const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  delete decoded.v[column];
+  return `${version}.${Buffer.from(JSON.stringify(decoded)).toString('base64url')}.`;
+};
+
+describe('PaginationBuilder cursor pagination', () => {
+  it('is disabled unless enableCursor is set', async () => {
+    const error = await createBuilder()
+      .withCursorPagination({ limit: 1 })
+      .executeWithCursor()
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(PaginationError);
+    expect(error.code).toBe('CURSOR_PAGINATION_DISABLED');
+  });
+
+  it('reports cursors missing key values as invalid cursors', async () => {
+    const builder = createBuilder({ enableCursor: true });
+    const page = await builder.withCursorPagination({ limit: 1 }).executeWithCursor();
+    const cursor = dropCursorValue(page.pagination.nextCursor as string, 'name');
+
+    const error = await builder
+      .withCursorPagination({ limit: 1, cursor })
+      .executeWithCursor()
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(PaginationError);
+    expect(error.code).toBe('INVALID_CURSOR');
+  });
+});
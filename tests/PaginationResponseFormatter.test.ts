@@ -0,0 +1,45 @@
+import { PaginationResponseFormatter } from '../src/utils/PaginationResponseFormatter';
+import { PaginationResult } from '../src/types/PaginationTypes';
+
+const inexactPage: PaginationResult = {
+  data: [],
+  pagination: {
+    page: 2,
+    pageSize: 10,
+    total: 20,
+    totalPages: 2,
+    hasNext: true,
+    hasPrev: true,
+    countStrategy: 'none',
+    totalIsExact: false,
+  },
+};
+
+describe('PaginationResponseFormatter', () => {
+  it('keeps hasNext and totalPages from the count strategy', () => {
+    const { headers, body } = new PaginationResponseFormatter().format(
+      '/users?page=2',
+      inexactPage
+    );
+
+    expect(body.pagination).toEqual(
+      expect.objectContaining({ hasNext: true, totalPages: 2, totalIsExact: false })
+    );
+    expect(body.links.next).toBe('/users?page=3&pageSize=10');
+    expect(body.links.last).toBeUndefined();
+    expect(headers['Link']).toContain('rel="next"');
+    expect(headers).not.toHaveProperty('X-Total-Count');
+  });
+
+  it('sends X-Total-Count for exact totals', () => {
+    const exactPage = {
+      ...inexactPage,
+      pagination: { ...inexactPage.pagination, hasNext: false, totalIsExact: true },
+    };
+
+    const { headers, body } = new PaginationResponseFormatter().format('/users?page=2', exactPage);
+
+    expect(headers['X-Total-Count']).toBe('20');
+    expect(body.pagination).toEqual(expect.objectContaining({ startIndex: 10, endIndex: 19 }));
+  });
+});
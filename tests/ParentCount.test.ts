@@ -0,0 +1,88 @@
+import { DataTypes } from 'sequelize';
+import { createQueryBuilder } from '../src';
+import { createSequelize, defineUser } from './helpers';
+
+const sequelize = createSequelize();
+const User = defineUser(sequelize);
+const Order = sequelize.define('Order', { total: DataTypes.INTEGER });
+User.hasMany(Order, { as: 'orders' });
+
+const findAll = jest.spyOn(User, 'findAll');
+const count = jest.spyOn(User, 'count');
+const findAndCountAll = jest.spyOn(User, 'findAndCountAll');
+
+describe('parent row counts', () => {
+  beforeEach(() => {
+    findAll.mockReset().mockResolvedValue([]);
+    count.mockReset();
+    findAndCountAll.mockReset();
+  });
+
+  it('counts distinct parent rows when includes are joined', async () => {
+    count.mockResolvedValueOnce(7);
+
+    const result = await createQueryBuilder(User as any)
+      .withJoins([{ model: 'Order', as: 'orders', required: true }])
+      .withSorting({ column: 'name', order: 'ASC' })
+      .withPagination({ page: 1, pageSize: 5 })
+      .execute();
+
+    const countOptions = count.mock.calls[0]?.[0] as any;
+    expect(countOptions).toEqual(expect.objectContaining({ distinct: true, col: 'id' }));
+    expect(countOptions).not.toHaveProperty('limit');
+    expect(countOptions).not.toHaveProperty('order');
+    expect(result.pagination).toEqual(expect.objectContaining({ total: 7, totalPages: 2 }));
+  });
+
+  it('counts distinct rows when withDistinct is set', async () => {
+    count.mockResolvedValueOnce(3);
+
+    await createQueryBuilder(User as any)
+      .withDistinct()
+      .withPagination({ page: 1, pageSize: 5 })
+      .execute();
+
+    expect(count.mock.calls[0]?.[0]).toEqual(
+      expect.objectContaining({ distinct: true, col: 'id' })
+    );
+  });
+
+  it('leaves plain counts alone', async () => {
+    count.mockResolvedValueOnce(3);
+
+    await createQueryBuilder(User as any)
+      .withPagination({ page: 1, pageSize: 5 })
+      .execute();
+
+    expect(count.mock.calls[0]?.[0]).not.toHaveProperty('distinct');
+  });
+
+  it('reports the number of groups for grouped queries', async () => {
+    count.mockResolvedValueOnce([
+      { status: 'a', count: 4 },
+      { status: 'b', count: 2 },
+    ] as any);
+
+    const result = await createQueryBuilder(User as any)
+      .withGroup(['status'])
+      .withPagination({ page: 1, pageSize: 5 })
+      .execute();
+
+    expect(count.mock.calls[0]?.[0]).toEqual(expect.objectContaining({ group: ['status'] }));
+    expect(result.pagination).toEqual(expect.objectContaining({ total: 2 }));
+  });
+
+  it('reports grouped and distinct counts from executeWithCount', async () => {
+    findAndCountAll.mockResolvedValueOnce({ rows: [], count: [{ count: 1 }, { count: 5 }] } as any);
+
+    const result = await createQueryBuilder(User as any)
+      .withJoins([{ model: 'Order', as: 'orders' }])
+      .withGroup(['status'])
+      .executeWithCount();
+
+    expect(findAndCountAll.mock.calls[0]?.[0]).toEqual(
+      expect.objectContaining({ distinct: true, col: 'id' })
+    );
+    expect(result.count).toBe(2);
+  });
+});
@@ -0,0 +1,101 @@
+import { Op } from 'sequelize';
+import { AdvancedQueryBuilder } from '../src/builders/AdvancedQueryBuilder';
+import { FilterBuilder } from '../src/builders/FilterBuilder';
+import { SortBuilder } from '../src/builders/SortBuilder';
+import { QuerySerializer } from '../src/utils/QuerySerializer';
+import { createSequelize, defineUser, toSql } from './helpers';
+
+const User = defineUser(createSequelize());
+const since = new Date('2024-01-01T00:00:00.000Z');
+
+const sql = (builder: FilterBuilder): string => toSql(User, builder.build().where);
+const createBuilder = () => new AdvancedQueryBuilder({ model: User as any });
+
+describe('QuerySerializer round trips', () => {
+  const filters = () =>
+    new FilterBuilder()
+      .where('name', 'a')
+      .addFilter({ field: 'createdAt', operator: 'gte', value: since })
+      .orWhereGroup(group => group.where('status', 'c').whereNot(not => not.where('age', 1)));
+
+  it('restores filters from JSON', () => {
+    const builder = filters();
+    const restored = FilterBuilder.fromJSON(JSON.stringify(builder.toJSON()));
+
+    expect(sql(restored)).toBe(sql(builder));
+  });
+
+  it('restores filters from a query string', () => {
+    const builder = filters();
+    const restored = FilterBuilder.fromQueryString(`/users?${builder.toQueryString()}`);
+
+    expect(sql(restored)).toBe(sql(builder));
+  });
+
+  it('restores sorts', () => {
+    const builder = new SortBuilder().orderByDesc('createdAt').orderBy('name');
+    const restored = SortBuilder.fromQueryString(builder.toQueryString());
+
+    expect(restored.build().order).toEqual(builder.build().order);
+  });
+
+  it('restores query state', () => {
+    const builder = createBuilder()
+      .withWhere({ age: { [Op.gte]: 18 }, [Op.or]: [{ status: 'a' }, { createdAt: since }] })
+      .withAttributes(['name', 'age'])
+      .withPagination({ page: 2, pageSize: 10 })
+      .withSorting({ column: 'name', order: 'ASC' })
+      .withDistinct();
+    const restored = createBuilder().restore(JSON.stringify(builder.serialize()));
+
+    expect(restored.getCurrentOptions()).toEqual(builder.getCurrentOptions());
+    expect(toSql(User, restored.getCurrentOptions().where)).toBe(
+      toSql(User, builder.getCurrentOptions().where)
+    );
+  });
+
+  it('rejects unknown versions', () => {
+    expect(() => FilterBuilder.fromJSON({ version: 2, filters: [] } as any)).toThrow(
+      expect.objectContaining({ code: 'UNSUPPORTED_SERIALIZATION_VERSION' })
+    );
+  });
+});
+
+describe('QuerySerializer untrusted input', () => {
+  it('rejects operator keys in filter condition values', () => {
+    const payload = {
+      version: QuerySerializer.VERSION,
+      filters: [{ field: 'name', operator: 'eq', value: { '$$op:col': 'passwordHash' } }],
+    };
+
+    expect(() => FilterBuilder.fromJSON(payload as any)).toThrow(
+      expect.objectContaining({ code: 'INVALID_SERIALIZED_QUERY' })
+    );
+  });
+
+  it('rejects unsafe operators in where', () => {
+    const payload = {
+      version: QuerySerializer.VERSION,
+      options: { where: { name: { '$$op:col': 'passwordHash' } } },
+    };
+
+    expect(() => createBuilder().restore(payload as any)).toThrow(
+      expect.objectContaining({ code: 'INVALID_WHERE' })
+    );
+  });
+
+  it('rejects unknown columns and options', () => {
+    const restore = (options: Record<string, any>) => () =>
+      createBuilder().restore({ version: QuerySerializer.VERSION, options } as any);
+
+    expect(restore({ where: { passwordHash: 'x' } })).toThrow(
+      expect.objectContaining({ code: 'INVALID_WHERE' })
+    );
+    expect(restore({ attributes: ['passwordHash'] })).toThrow(
+      expect.objectContaining({ code: 'INVALID_COLUMNS' })
+    );
+    expect(restore({ order: [['name', 'ASC']] })).toThrow(
+      expect.objectContaining({ code: 'INVALID_SERIALIZED_QUERY' })
+    );
+  });
+});
@@ -0,0 +1,37 @@
+import { QueryStringFilterParser } from '../src/utils/QueryStringFilterParser';
+
+describe('QueryStringFilterParser', () => {
+  const parser = new QueryStringFilterParser();
+
+  it('parses bracket-syntax filters', () => {
+    expect(parser.parse('filter[age][gte]=18&filter[status][in]=a,b')).toEqual({
+      operator: 'and',
+      conditions: [
+        { field: 'age', operator: 'gte', value: '18' },
+        { field: 'status', operator: 'in', value: ['a', 'b'] },
+      ],
+    });
+  });
+
+  it.each(['__proto__', 'constructor', 'prototype'])('rejects a %s segment', segment => {
+    expect(() => parser.parse(`filter[${segment}][polluted]=1`)).toThrow(
+      expect.objectContaining({ code: 'INVALID_FILTER_FIELD' })
+    );
+    expect(({} as any).polluted).toBeUndefined();
+  });
+
+  it('builds prototype-less nodes', () => {
+    const parsed = parser.parseQueryString('filter[name]=x');
+    expect(Object.getPrototypeOf(parsed)).toBeNull();
+    expect(Object.getPrototypeOf(parsed['filter'])).toBeNull();
+  });
+
+  it('only accepts null, true and false for is/isNot', () => {
+    expect(parser.parse('filter[deletedAt][is]=null').conditions).toEqual([
+      { field: 'deletedAt', operator: 'is', value: null },
+    ]);
+    expect(() => parser.parse('filter[deletedAt][is]=toString')).toThrow(
+      expect.objectContaining({ code: 'INVALID_FILTER_VALUE' })
+    );
+  });
+});
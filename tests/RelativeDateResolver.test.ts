@@ -0,0 +1,86 @@
+import { RelativeDateResolver } from '../src/utils/RelativeDateResolver';
+
+const at = (iso: string) =>
+  new RelativeDateResolver({ timeZone: 'Europe/Amsterdam', clock: () => new Date(iso) });
+
+const range = (resolver: RelativeDateResolver, expression: string) => {
+  const { start, end, endInclusive } = resolver.resolve(expression);
+  return { start: start.toISOString(), end: end.toISOString(), endInclusive };
+};
+
+const HOUR = 3600000;
+
+describe('RelativeDateResolver across DST transitions', () => {
+  it('gives the spring-forward day 23 hours', () => {
+    const resolver = at('2024-03-31T12:00:00Z');
+
+    expect(range(resolver, 'today')).toEqual({
+      start: '2024-03-30T23:00:00.000Z',
+      end: '2024-03-31T22:00:00.000Z',
+      endInclusive: false,
+    });
+    const { start, end } = resolver.resolve('today');
+    expect(end.getTime() - start.getTime()).toBe(23 * HOUR);
+  });
+
+  it('gives the fall-back day 25 hours', () => {
+    const { start, end } = at('2024-10-27T12:00:00Z').resolve('today');
+
+    expect(start.toISOString()).toBe('2024-10-26T22:00:00.000Z');
+    expect(end.getTime() - start.getTime()).toBe(25 * HOUR);
+  });
+
+  it('starts yesterday and tomorrow at local midnight on the other side of the change', () => {
+    expect(range(at('2024-03-31T12:00:00Z'), 'tomorrow').start).toBe('2024-03-31T22:00:00.000Z');
+    expect(range(at('2024-04-01T12:00:00Z'), 'yesterday')).toEqual({
+      start: '2024-03-30T23:00:00.000Z',
+      end: '2024-03-31T22:00:00.000Z',
+      endInclusive: false,
+    });
+  });
+
+  it('covers whole local days in rolling day ranges', () => {
+    expect(range(at('2024-04-02T10:00:00Z'), 'last_7_days')).toEqual({
+      start: '2024-03-26T23:00:00.000Z',
+      end: '2024-04-02T22:00:00.000Z',
+      endInclusive: false,
+    });
+  });
+
+  it('bounds the month by local midnights in both offsets', () => {
+    expect(range(at('2024-03-15T12:00:00Z'), 'this_month')).toEqual({
+      start: '2024-02-29T23:00:00.000Z',
+      end: '2024-03-31T22:00:00.000Z',
+      endInclusive: false,
+    });
+  });
+
+  it('keeps the wall-clock time for day durations and exact hours for time durations', () => {
+    const resolver = at('2024-03-31T12:00:00Z');
+
+    expect(range(resolver, 'P1D').start).toBe('2024-03-30T13:00:00.000Z');
+    expect(range(resolver, 'PT24H').start).toBe('2024-03-30T12:00:00.000Z');
+    expect(range(resolver, 'last_24_hours').start).toBe('2024-03-30T12:00:00.000Z');
+  });
+});
+
+describe('RelativeDateResolver.toConditions', () => {
+  it('turns within into a half-open range in the condition time zone', () => {
+    const resolver = new RelativeDateResolver({ clock: () => new Date('2024-10-27T12:00:00Z') });
+
+    expect(
+      resolver.toConditions({
+        field: 'createdAt',
+        operator: 'within',
+        value: 'today',
+        timeZone: 'Europe/Amsterdam',
+      })
+    ).toEqual({
+      operator: 'and',
+      conditions: [
+        { field: 'createdAt', operator: 'gte', value: new Date('2024-10-26T22:00:00Z') },
+        { field: 'createdAt', operator: 'lt', value: new Date('2024-10-27T23:00:00Z') },
+      ],
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { FilterCondition } from '../src/types/FilterTypes';
+import { RsqlParser } from '../src/utils/RsqlParser';
+import { RsqlSerializer } from '../src/utils/RsqlSerializer';
+
+const parse = (expression: string) => new RsqlParser().parse(expression).conditions[0];
+const roundTrip = (condition: FilterCondition) => parse(new RsqlSerializer().serialize(condition));
+
+describe('RsqlParser wildcards', () => {
+  it('treats unquoted * as a wildcard', () => {
+    expect(parse('name==John*')).toEqual({ field: 'name', operator: 'startsWith', value: 'John' });
+    expect(parse('name==*son')).toEqual({ field: 'name', operator: 'endsWith', value: 'son' });
+    expect(parse('name==*oh*')).toEqual({ field: 'name', operator: 'contains', value: 'oh' });
+    expect(parse('name==a*b')).toEqual({
+      field: 'name',
+      operator: 'like',
+      value: 'a%b',
+      rawPattern: true,
+    });
+  });
+
+  it('treats quoted * as a literal', () => {
+    expect(parse("name=='a*b'")).toEqual({ field: 'name', operator: 'eq', value: 'a*b' });
+    expect(parse('name!="*"')).toEqual({ field: 'name', operator: 'ne', value: '*' });
+  });
+
+  it('joins quoted and unquoted parts of a value', () => {
+    expect(parse('name=="John Smith"*')).toEqual({
+      field: 'name',
+      operator: 'startsWith',
+      value: 'John Smith',
+    });
+    expect(parse('name==*"a*b"')).toEqual({ field: 'name', operator: 'endsWith', value: 'a*b' });
+  });
+});
+
+describe('RsqlSerializer round trips', () => {
+  it.each<FilterCondition>([
+    { field: 'name', operator: 'eq', value: 'a*b' },
+    { field: 'name', operator: 'ne', value: '*' },
+    { field: 'name', operator: 'startsWith', value: 'John Smith' },
+    { field: 'name', operator: 'endsWith', value: 'a*' },
+    { field: 'name', operator: 'contains', value: 'x;y' },
+  ])('keeps $operator $value', condition => {
+    expect(roundTrip(condition)).toEqual(condition);
+  });
+});
+
+describe('RsqlSerializer raw patterns', () => {
+  it.each(['name==a*b', 'name!=a*b', 'name==a*"x;y"*b', 'name=="a%"*"_b"'])(
+    'keeps the meaning of %s',
+    expression => {
+      const condition = parse(expression) as FilterCondition;
+      expect(roundTrip(condition)).toEqual(condition);
+    }
+  );
+
+  it('matches != and == with the same case sensitivity', () => {
+    expect(parse('name!=a*b')).toEqual({
+      field: 'name',
+      operator: 'notLike',
+      value: 'a%b',
+      rawPattern: true,
+      caseSensitive: false,
+    });
+  });
+
+  it('writes wildcard-free patterns as literals', () => {
+    const serialized = new RsqlSerializer().serialize({
+      field: 'name',
+      operator: 'like',
+      value: '50\\%',
+      rawPattern: true,
+    });
+    expect(serialized).toBe('name=like=50%');
+    expect(parse(serialized)).toEqual({ field: 'name', operator: 'like', value: '50%' });
+  });
+
+  it.each<FilterCondition>([
+    { field: 'name', operator: 'like', value: 'a_b', rawPattern: true },
+    { field: 'name', operator: 'notLike', value: 'a%b', rawPattern: true },
+  ])('rejects patterns RSQL cannot express: $operator $value', condition => {
+    expect(() => new RsqlSerializer().serialize(condition)).toThrow(
+      expect.objectContaining({ code: 'RSQL_UNSUPPORTED_OPERATOR' })
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import { SearchQueryParser } from '../src/utils/SearchQueryParser';
+import {
+  LikeSearchProvider,
+  MySqlSearchProvider,
+  PostgresSearchProvider,
+  SqliteFtsSearchProvider,
+} from '../src/utils/SearchProviders';
+import { createSequelize, defineUser, toSql } from './helpers';
+
+const parse = (input: string) => new SearchQueryParser().parse(input);
+
+const setup = (dialect: 'postgres' | 'mysql' | 'sqlite') => {
+  const sequelize = createSequelize(dialect);
+  const User = defineUser(sequelize);
+  return { User, context: { model: User, sequelize, dialect } };
+};
+
+describe('PostgresSearchProvider', () => {
+  it('matches a tsvector of the qualified fields', () => {
+    const { User, context } = setup('postgres');
+    const where = new PostgresSearchProvider({ config: 'english' }).buildWhere(
+      parse('laptop "gaming mouse" -refurbished'),
+      ['name', 'status'],
+      context
+    );
+
+    expect(toSql(User, where)).toBe(
+      `to_tsvector('english', concat_ws(' ', "User"."name", "User"."status")) @@ ` +
+        `websearch_to_tsquery('english', 'laptop "gaming mouse" -refurbished')`
+    );
+  });
+});
+
+describe('MySqlSearchProvider', () => {
+  it('matches in boolean mode with every term required', () => {
+    const { User, context } = setup('mysql');
+    const where = new MySqlSearchProvider().buildWhere(parse('laptop -used'), ['name'], context);
+
+    expect(toSql(User, where)).toBe(
+      'MATCH (`User`.`name`) AGAINST (\'+\\"laptop\\" -\\"used\\"\' IN BOOLEAN MODE) > 0'
+    );
+  });
+});
+
+describe('SqliteFtsSearchProvider', () => {
+  const provider = new SqliteFtsSearchProvider({ table: 'users_fts' });
+
+  it('selects matching rowids from the FTS5 table', () => {
+    const { User, context } = setup('sqlite');
+    const where = provider.buildWhere(parse('laptop -used'), ['name'], context);
+
+    expect(toSql(User, where)).toBe(
+      '`User`.`id` IN (SELECT rowid FROM `users_fts` WHERE `users_fts` MATCH ' +
+        '\'{name} : (("laptop") NOT "used")\')'
+    );
+  });
+
+  it('rejects queries with only exclusions', () => {
+    expect(() => provider.toMatchQuery(parse('-used'), ['name'])).toThrow(
+      expect.objectContaining({ code: 'SEARCH_QUERY_EMPTY' })
+    );
+  });
+});
+
+describe('LikeSearchProvider', () => {
+  it('requires each term in some field and lets excluded terms match NULL', () => {
+    const { User, context } = setup('sqlite');
+    const where = new LikeSearchProvider().buildWhere(parse('a -b'), ['name'], context);
+
+    expect(toSql(User, where)).toBe(
+      "((LOWER(`User`.`name`) LIKE '%a%') AND (`User`.`name` IS NULL OR LOWER(`User`.`name`) NOT LIKE '%b%'))"
+    );
+  });
+
+  it('qualifies association fields in the NULL check', () => {
+    const { User, context } = setup('sqlite');
+    const where = new LikeSearchProvider().buildWhere(parse('-b'), ['profile.country'], context);
+
+    expect(toSql(User, where)).toBe(
+      "((`profile`.`country` IS NULL OR LOWER(`profile`.`country`) NOT LIKE '%b%'))"
+    );
+  });
+
+  it('uses ILIKE on Postgres', () => {
+    const { User, context } = setup('postgres');
+    const where = new LikeSearchProvider().buildWhere(parse('a'), ['name', 'status'], context);
+
+    expect(toSql(User, where)).toBe(`(("User"."name" ILIKE '%a%' OR "User"."status" ILIKE '%a%'))`);
+  });
+});
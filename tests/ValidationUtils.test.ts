@@ -0,0 +1,22 @@
+import { ValidationUtils } from '../src/utils/ValidationUtils';
+import { FilterSchema } from '../src/types/FilterTypes';
+
+const schema: FilterSchema = {
+  name: { type: 'string', operators: ['eq'] },
+  meta: { type: 'object', operators: ['eq'], paths: ['a.b'] },
+};
+
+describe('ValidationUtils.getFilterFieldSchema', () => {
+  it('finds fields and JSON paths', () => {
+    expect(ValidationUtils.getFilterFieldSchema(schema, 'name')).toBe(schema['name']);
+    expect(ValidationUtils.getFilterFieldSchema(schema, 'meta.a.b')).toBe(schema['meta']);
+    expect(ValidationUtils.getFilterFieldSchema(schema, 'meta.c')).toBeUndefined();
+  });
+
+  it.each(['constructor', '__proto__', 'toString.x', 'hasOwnProperty'])(
+    'ignores the inherited name %s',
+    field => {
+      expect(ValidationUtils.getFilterFieldSchema(schema, field)).toBeUndefined();
+    }
+  );
+});
@@ -0,0 +1,27 @@
+import { DataTypes, Model, ModelStatic, Sequelize } from 'sequelize';
+
+/**
+ * Sequelize instance with a stub driver: queries can be generated but not run
+ */
+export function createSequelize(dialect: 'postgres' | 'mysql' | 'sqlite' = 'postgres'): Sequelize {
+  const dialectModule = { types: { builtins: {}, setTypeParser() {} } };
+  return new Sequelize({ dialect, dialectModule, logging: false } as any);
+}
+
+export function defineUser(sequelize: Sequelize): ModelStatic<Model> {
+  return sequelize.define('User', {
+    name: DataTypes.STRING,
+    age: DataTypes.INTEGER,
+    status: DataTypes.STRING,
+    createdAt: DataTypes.DATE,
+  });
+}
+
+/**
+ * Render a where object as the SQL WHERE clause Sequelize would send
+ */
+export function toSql(model: ModelStatic<Model>, where: any): string {
+  const generator = (model.sequelize as any).getQueryInterface().queryGenerator;
+  const sql: string = generator.selectQuery(model.getTableName(), { where }, model);
+  return sql.replace(/^.*? WHERE /, '').replace(/;$/, '');
+}